@@ -1,11 +1,31 @@
 import React, { useState } from "react";
 import styled, { keyframes, css } from "styled-components";
-import ImpossibleQuestionEngine from "./ImpossibleQuestionEngine";
-import EmotionalColorTranslator from "./EmotionalColorTranslator";
+import dynamic from "next/dynamic";
 import FeatureAnnouncementModal from "./FeatureAnnouncementModal";
-import AIGameWorkshop from "./AIGameWorkshop";
+import FeatureErrorBoundary from "./FeatureErrorBoundary";
+import LoadingSkeleton from "./LoadingSkeleton";
 import useFeatureAnnouncement from "../hooks/useFeatureAnnouncement";
 
+// Experiments are only downloaded once someone opens them
+const AIGameWorkshop = dynamic(() => import("./AIGameWorkshop"), {
+  ssr: false,
+  loading: () => <LoadingSkeleton label="the AI Game Workshop" />,
+});
+const EmotionalColorTranslator = dynamic(
+  () => import("./EmotionalColorTranslator"),
+  {
+    ssr: false,
+    loading: () => <LoadingSkeleton label="the Emotional Color Translator" />,
+  }
+);
+const ImpossibleQuestionEngine = dynamic(
+  () => import("./ImpossibleQuestionEngine"),
+  {
+    ssr: false,
+    loading: () => <LoadingSkeleton label="the Impossible Question Engine" />,
+  }
+);
+
 // Types for our weird AI experiments
 interface AIExperiment {
   id: string;
@@ -15,7 +35,7 @@ interface AIExperiment {
   category: "text" | "visual" | "audio" | "data" | "chaos" | "games";
   weirdness: number; // 1-10 scale of how weird this gets
   status: "stable" | "experimental" | "chaotic" | "forbidden" | "legendary";
-  component?: React.FC; // Optional dedicated component
+  component?: React.ComponentType; // Optional dedicated component
 }
 
 interface AIAssistantProps {
@@ -664,7 +684,12 @@ Message from the Code Universe:
           {/* Check if experiment has a dedicated component */}
           {selectedExperiment.component ? (
             <div style={{ marginTop: "2rem" }}>
-              <selectedExperiment.component />
+              <FeatureErrorBoundary
+                key={selectedExperiment.id}
+                label={selectedExperiment.name}
+              >
+                <selectedExperiment.component />
+              </FeatureErrorBoundary>
               <div style={{ textAlign: "center", marginTop: "2rem" }}>
                 <ActionButton
                   $variant="danger"
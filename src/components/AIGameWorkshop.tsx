@@ -1,13 +1,43 @@
-import React, { useState, useRef, useEffect, useCallback } from "react";
+import React, {
+  useState,
+  useRef,
+  useEffect,
+  useCallback,
+  useMemo,
+} from "react";
 import styled, { keyframes, css } from "styled-components";
-import AISnakeGame from "./games/AISnakeGame";
-import NeuralPongGame from "./games/NeuralPongGame";
+import dynamic from "next/dynamic";
+import BrainLibrary from "./BrainLibrary";
+import FeatureErrorBoundary from "./FeatureErrorBoundary";
+import ControlSettings from "./ControlSettings";
+import GameLeaderboard from "./GameLeaderboard";
+import GameResults from "./GameResults";
+import LevelPicker from "./LevelPicker";
+import LoadingSkeleton from "./LoadingSkeleton";
+import { createGameCommandBus, toGameCoordinates } from "./games/gameCommands";
+import { createGameSession, parseReplay } from "./games/gameSession";
+import { parseBrain } from "./games/networkBrains";
+import { parseLevel, SNAKE_LEVELS } from "./games/snakeLevels";
 import {
+  NO_ACTIONS,
+  resolveActions,
+  resolvePlayers,
+} from "./games/inputBindings";
+import useInputBindings from "../hooks/useInputBindings";
+import useSavedBrains from "../hooks/useSavedBrains";
+import {
+  GAME_HEIGHT,
+  GAME_WIDTH,
   GameConfig,
   GameState,
   ControlState,
   GameEvent,
   GameEngineProps,
+  GameReplay,
+  GameResult,
+  RecordedGameRun,
+  SavedBrain,
+  SnakeLevel,
   TouchPoint,
   GamepadState,
 } from "../types/gameTypes";
@@ -211,6 +241,27 @@ const ControlIcons = styled.div`
   }
 `;
 
+const ModeButtons = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 0.5rem;
+  margin-top: 1rem;
+`;
+
+const ModeButton = styled.button`
+  padding: 0.35rem 0.75rem;
+  border-radius: 8px;
+  border: 1px solid rgba(78, 205, 196, 0.5);
+  background: rgba(78, 205, 196, 0.1);
+  color: white;
+  font-size: 0.8rem;
+  cursor: pointer;
+
+  &:hover {
+    background: rgba(78, 205, 196, 0.3);
+  }
+`;
+
 const GameEngine = styled.div`
   position: fixed;
   top: 0;
@@ -286,101 +337,91 @@ const TryAgainButton = styled.button`
   }
 `;
 
-const GameButtonsContainer = styled.div`
-  display: flex;
-  gap: 1rem;
-  align-items: center;
-`;
-
-const GameOverModal = styled.div`
-  position: fixed;
-  top: 0;
-  left: 0;
-  right: 0;
-  bottom: 0;
-  background: rgba(0, 0, 0, 0.8);
-  display: flex;
-  align-items: center;
-  justify-content: center;
-  z-index: 1000;
-  backdrop-filter: blur(10px);
-`;
+const PauseButton = styled(TryAgainButton)`
+  margin-right: 0;
+  background: rgba(255, 193, 7, 0.8);
 
-const ModalContent = styled.div`
-  background: linear-gradient(
-    135deg,
-    rgba(30, 30, 50, 0.95),
-    rgba(20, 20, 40, 0.95)
-  );
-  border: 2px solid rgba(102, 126, 234, 0.5);
-  border-radius: 20px;
-  padding: 3rem 2rem;
-  max-width: 500px;
-  width: 90%;
-  text-align: center;
-  box-shadow: 0 20px 40px rgba(0, 0, 0, 0.5);
-  backdrop-filter: blur(20px);
+  &:hover {
+    background: rgba(255, 193, 7, 1);
+  }
 `;
 
-const ModalTitle = styled.h2`
-  font-size: 2.5rem;
-  margin-bottom: 1rem;
-  background: linear-gradient(135deg, #667eea, #764ba2);
-  background-clip: text;
-  -webkit-background-clip: text;
-  -webkit-text-fill-color: transparent;
+const ReplayBadge = styled.span`
+  padding: 0.5rem 1rem;
+  border-radius: 8px;
+  background: rgba(255, 69, 69, 0.85);
+  color: white;
+  font-weight: 700;
+  letter-spacing: 0.1em;
+  animation: ${hologramFlicker} 2s infinite;
 `;
 
-const ModalStats = styled.div`
-  margin: 2rem 0;
+const MenuBar = styled.div`
+  position: relative;
+  z-index: 1;
+  display: flex;
+  justify-content: center;
+  align-items: center;
+  flex-wrap: wrap;
+  gap: 1rem;
+  margin-bottom: 2rem;
 
-  .stat-row {
-    display: flex;
-    justify-content: space-between;
-    margin: 0.5rem 0;
-    font-size: 1.1rem;
+  input[type="file"] {
+    display: none;
   }
+`;
 
-  .final-score {
-    font-size: 1.5rem;
-    font-weight: bold;
-    margin: 1rem 0;
-    color: #4ecdc4;
+const MenuButton = styled.label`
+  background: rgba(102, 126, 234, 0.2);
+  border: 1px solid rgba(102, 126, 234, 0.5);
+  color: white;
+  padding: 0.75rem 1.5rem;
+  border-radius: 8px;
+  cursor: pointer;
+  font-weight: 600;
+  transition: all 0.3s ease;
+
+  &:hover {
+    background: rgba(102, 126, 234, 0.4);
   }
 `;
 
-const ModalButtons = styled.div`
-  display: flex;
-  gap: 1rem;
-  justify-content: center;
-  margin-top: 2rem;
+const ReplayError = styled.p`
+  width: 100%;
+  text-align: center;
+  color: #ff6b6b;
 `;
 
-const ModalButton = styled.button<{ $primary?: boolean }>`
-  background: ${(props) =>
-    props.$primary
-      ? "linear-gradient(135deg, #667eea, #764ba2)"
-      : "rgba(255, 255, 255, 0.1)"};
-  border: 2px solid
-    ${(props) => (props.$primary ? "transparent" : "rgba(255, 255, 255, 0.3)")};
-  color: white;
+const PersonalBestBanner = styled.div`
+  position: fixed;
+  top: 90px;
+  left: 50%;
+  transform: translateX(-50%);
+  z-index: 1000;
   padding: 1rem 2rem;
   border-radius: 12px;
-  cursor: pointer;
-  font-weight: 600;
-  font-size: 1rem;
-  transition: all 0.3s ease;
+  background: linear-gradient(45deg, #667eea, #4ecdc4);
+  color: white;
+  font-weight: 700;
+  font-size: 1.2rem;
+  text-align: center;
+  animation: ${glowPulse} 1.5s ease-in-out infinite;
+  pointer-events: none;
 
-  &:hover {
-    transform: translateY(-2px);
-    box-shadow: 0 10px 20px rgba(0, 0, 0, 0.3);
-    background: ${(props) =>
-      props.$primary
-        ? "linear-gradient(135deg, #5a67d8, #6b46c1)"
-        : "rgba(255, 255, 255, 0.2)"};
+  small {
+    display: block;
+    font-size: 0.85rem;
+    font-weight: 500;
+    opacity: 0.85;
   }
 `;
 
+const GameButtonsContainer = styled.div`
+  display: flex;
+  gap: 1rem;
+  align-items: center;
+`;
+
 const MatrixBackground = styled.div`
   position: absolute;
   top: 0;
@@ -417,17 +458,42 @@ const MatrixBackground = styled.div`
   }
 `;
 
+// Games are split into their own chunks and fetched when a run starts
+const AISnakeGame = dynamic(() => import("./games/AISnakeGame"), {
+  ssr: false,
+  loading: () => <LoadingSkeleton label="AI Snake Evolution" overlay />,
+});
+const NeuralPongGame = dynamic(() => import("./games/NeuralPongGame"), {
+  ssr: false,
+  loading: () => <LoadingSkeleton label="Neural Network Pong" overlay />,
+});
+const QuantumTetrisGame = dynamic(() => import("./games/QuantumTetrisGame"), {
+  ssr: false,
+  loading: () => <LoadingSkeleton label="Quantum Tetris" overlay />,
+});
+
 // Sample Games Configuration
 const availableGames: GameConfig[] = [
   {
     id: "snake-ai",
     name: "AI Snake Evolution",
     description:
-      "Classic Snake but the AI learns and adapts to your playing style. Watch it evolve!",
+      "Classic Snake but the AI learns and adapts to your playing style, or a battle royale against four AI personalities. Watch it evolve!",
     icon: "🐍",
     difficulty: 4,
     controls: ["keyboard", "touch", "gamepad"],
     category: "arcade",
+    replayable: true,
+    difficulties: [
+      { id: "easy", label: "🐣 Easy", rating: 3 },
+      { id: "normal", label: "🎯 Normal", rating: 4 },
+      { id: "hard", label: "🔥 Hard", rating: 6 },
+    ],
+    modes: [
+      { id: "solo", label: "🧑 vs 🤖" },
+      { id: "royale", label: "👑 Battle Royale" },
+    ],
+    levels: SNAKE_LEVELS,
     component: AISnakeGame,
   },
   {
@@ -437,8 +503,22 @@ const availableGames: GameConfig[] = [
       "Pong where the AI opponent uses a real neural network that gets smarter as you play.",
     icon: "🏓",
     difficulty: 3,
-    controls: ["keyboard", "mouse", "touch"],
+    controls: ["keyboard", "mouse", "touch", "gamepad"],
     category: "arcade",
+    cursor: "crosshair", // Click or tap to fire lasers
+    replayable: true,
+    difficulties: [
+      { id: "easy", label: "🐣 Easy", rating: 2 },
+      { id: "normal", label: "🎯 Normal", rating: 3 },
+      { id: "hard", label: "🔥 Hard", rating: 5 },
+      { id: "veteran", label: "🎖️ Veteran", rating: 6 },
+    ],
+    modes: [
+      { id: "solo", label: "🧑 vs 🤖" },
+      { id: "versus", label: "🧑 vs 🧑 Versus" },
+      { id: "spectate", label: "🤖 vs 🤖 Watch" },
+    ],
+    brains: true,
     component: NeuralPongGame,
   },
   {
@@ -448,9 +528,15 @@ const availableGames: GameConfig[] = [
       "Tetris pieces exist in superposition until you observe them. Mind-bending puzzle mechanics.",
     icon: "🔮",
     difficulty: 8,
-    controls: ["keyboard", "touch"],
+    controls: ["keyboard", "touch", "gamepad"],
     category: "puzzle",
-    component: () => <div>Quantum Tetris Coming Soon...</div>,
+    replayable: true,
+    difficulties: [
+      { id: "easy", label: "🐣 Easy", rating: 6 },
+      { id: "normal", label: "🎯 Normal", rating: 8 },
+      { id: "hard", label: "🔥 Hard", rating: 9 },
+    ],
+    component: QuantumTetrisGame,
   },
   {
     id: "ai-painter",
@@ -487,6 +573,30 @@ const availableGames: GameConfig[] = [
   },
 ];
 
+// Saves data as a JSON file download
+const downloadJson = (fileName: string, data: unknown) => {
+  const blob = new Blob([JSON.stringify(data)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const downloadReplay = (replay: GameReplay) =>
+  downloadJson(`${replay.gameId}-replay-${replay.seed}.json`, replay);
+
+const downloadBrain = (brain: SavedBrain) =>
+  downloadJson(
+    `${brain.gameId}-brain-${brain.name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")}.json`,
+    brain
+  );
+
 // Control Icons Mapping
 const controlIconMap = {
   keyboard: "⌨️",
@@ -500,14 +610,78 @@ const AIGameWorkshop: React.FC = () => {
   const [selectedGame, setSelectedGame] = useState<GameConfig | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [gameState, setGameState] = useState<GameState>({});
-  const [showGameOverModal, setShowGameOverModal] = useState(false);
-  const [gameResult, setGameResult] = useState<{
-    winner: "player" | "ai";
-    playerScore: number;
-    aiScore: number;
-    maxRally: number;
-  } | null>(null);
+  const [gameResult, setGameResult] = useState<GameResult | null>(null);
+  const [difficulty, setDifficulty] = useState("normal");
+  const [mode, setMode] = useState("solo");
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const commandBus = useMemo(createGameCommandBus, []);
+
+  // Replays: the one being played back, and the last finished live run
+  const [replay, setReplay] = useState<GameReplay | null>(null);
+  const [lastReplay, setLastReplay] = useState<GameReplay | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+
+  // Brains: saved AI networks, the one runs start from, and the latest trained one
+  const { brains, saveBrain, deleteBrain } = useSavedBrains();
+  const [brainName, setBrainName] = useState<string | null>(null);
+  const [trainedBrain, setTrainedBrain] = useState<Omit<
+    SavedBrain,
+    "name" | "savedAt"
+  > | null>(null);
+  const [showBrains, setShowBrains] = useState(false);
+  const [brainError, setBrainError] = useState<string | null>(null);
+  const startingBrain = useMemo(() => {
+    if (replay) return replay.brain ?? null;
+    const saved = brains.find((brain) => brain.name === brainName);
+    return selectedGame?.brains && saved?.gameId === selectedGame.id
+      ? saved.network
+      : null;
+  }, [replay, brains, brainName, selectedGame]);
+
+  // Arenas: the one runs start on (by name; null for the first preset) and
+  // any level files loaded this visit
+  const [levelName, setLevelName] = useState<string | null>(null);
+  const [customLevels, setCustomLevels] = useState<SnakeLevel[]>([]);
+  const [showLevels, setShowLevels] = useState(false);
+  const [levelError, setLevelError] = useState<string | null>(null);
+  const startingLevel = useMemo(() => {
+    if (replay) return replay.level ?? null;
+    if (!selectedGame?.levels) return null;
+    return (
+      [...selectedGame.levels, ...customLevels].find(
+        (level) => level.name === levelName
+      ) ?? null
+    );
+  }, [replay, selectedGame, customLevels, levelName]);
+
+  const session = useMemo(
+    () =>
+      selectedGame
+        ? createGameSession(selectedGame.id, replay, {
+            difficulty,
+            mode,
+            brain: startingBrain,
+            level: startingLevel,
+          })
+        : null,
+    [selectedGame, replay, difficulty, mode, startingBrain, startingLevel]
+  );
+
+  // Scoreboard: one record per run, and a banner when it's a new best
+  const runRecordedRef = useRef(false);
+  const [showLeaderboard, setShowLeaderboard] = useState(false);
+  const [scoresVersion, setScoresVersion] = useState(0);
+  const [personalBest, setPersonalBest] = useState<{
+    gameName: string;
+    score: number;
+    previousBest: number | null;
+  } | null>(null);
+
+  useEffect(() => {
+    if (!personalBest) return;
+    const timer = setTimeout(() => setPersonalBest(null), 6000);
+    return () => clearTimeout(timer);
+  }, [personalBest]);
 
   // Control state
   const [controls, setControls] = useState<ControlState>({
@@ -515,39 +689,105 @@ const AIGameWorkshop: React.FC = () => {
     mouse: { x: 0, y: 0, buttons: [] },
     touch: [],
     gamepad: null,
+    gamepads: [],
+    actions: NO_ACTIONS,
+    players: [NO_ACTIONS, NO_ACTIONS],
   });
 
+  // Games see abstract actions through the player's saved bindings
+  const { bindings, setBindings, resetBindings } = useInputBindings();
+  const [showControls, setShowControls] = useState(false);
+  const gameControls = useMemo(
+    () => ({
+      ...controls,
+      actions: resolveActions(controls, bindings),
+      players: resolvePlayers(controls, bindings),
+    }),
+    [controls, bindings]
+  );
+
+  // Files a finished run with /api/scores and celebrates a new personal best
+  const recordRun = useCallback(
+    (game: GameConfig, run: Record<string, unknown>) => {
+      fetch("/api/scores", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(run),
+      })
+        .then((res) => (res.ok ? res.json() : null))
+        .then((result: RecordedGameRun | null) => {
+          if (!result) return;
+          setScoresVersion((version) => version + 1);
+          if (result.isPersonalBest) {
+            setPersonalBest({
+              gameName: game.name,
+              score: result.run.score,
+              previousBest: result.previousBest,
+            });
+          }
+        })
+        .catch(() => {});
+    },
+    []
+  );
+
   // Game event handler
   const handleGameEvent = useCallback(
     (event: GameEvent) => {
       console.log("Game Event:", event);
 
       switch (event.type) {
+        case "start":
+          runRecordedRef.current = false;
+          setGameResult(null);
+          break;
         case "end":
-          // Extract game result data for Neural Network Pong
-          if (selectedGame?.name === "Neural Network Pong" && event.data) {
-            const data = event.data as {
-              winner?: "player" | "ai";
-              finalScore?: number[];
-              maxRally?: number;
-            };
-            setGameResult({
-              winner: data.winner || "ai",
-              playerScore: data.finalScore?.[0] || 0,
-              aiScore: data.finalScore?.[1] || 0,
-              maxRally: data.maxRally || 0,
+          // Keep the tape so the run can still be saved from the menu
+          if (selectedGame?.replayable && session && !session.isReplaying()) {
+            setLastReplay(session.toReplay());
+          }
+
+          // Quitting mid-game, watching replays and runs in any mode but
+          // solo (versus, spectator, battle royale) don't make the scoreboard
+          if (
+            selectedGame &&
+            session &&
+            !session.isReplaying() &&
+            mode === "solo" &&
+            event.data.winner !== "none" &&
+            !runRecordedRef.current
+          ) {
+            runRecordedRef.current = true;
+            recordRun(selectedGame, {
+              gameId: selectedGame.id,
+              score: event.data.score ?? event.data.finalScore?.[0] ?? 0,
+              maxRally: event.data.maxRally,
+              length: event.data.length,
+              durationMs: session.clock.now(),
+              difficulty:
+                selectedGame.difficulties?.find((d) => d.id === difficulty)
+                  ?.rating ?? selectedGame.difficulty,
+              winner: event.data.winner,
             });
-            setShowGameOverModal(true);
-          } else {
-            // For other games, exit immediately
+          }
+
+          if (event.data.winner === "none") {
+            // Quit mid-game: straight back to the menu
             setIsPlaying(false);
             setSelectedGame(null);
+          } else {
+            setGameResult(event.data);
+          }
+          break;
+        case "brain":
+          if (selectedGame) {
+            setTrainedBrain({ gameId: selectedGame.id, network: event.data });
           }
           break;
         // Handle other events...
       }
     },
-    [selectedGame]
+    [selectedGame, session, difficulty, mode, recordRun]
   );
 
   // Keyboard controls
@@ -557,7 +797,7 @@ const AIGameWorkshop: React.FC = () => {
       if (isPlaying && (gameState as { gameOver?: boolean }).gameOver) {
         if (e.key === "r" || e.key === "R") {
           e.preventDefault();
-          tryAgain();
+          commandBus.send({ type: "RESTART" });
           return;
         }
         if (e.key === "Escape") {
@@ -590,7 +830,7 @@ const AIGameWorkshop: React.FC = () => {
         window.removeEventListener("keyup", handleKeyUp);
       };
     }
-  }, [isPlaying, gameState]);
+  }, [isPlaying, gameState, commandBus]);
 
   // Mouse controls
   useEffect(() => {
@@ -607,8 +847,8 @@ const AIGameWorkshop: React.FC = () => {
       const rawY = (e.clientY - rect.top) * scaleY;
 
       // Calculate game area offset (centering)
-      const gameOffsetX = (canvas.width - 800) / 2; // 800 is CANVAS_WIDTH
-      const gameOffsetY = (canvas.height - 600) / 2; // 600 is CANVAS_HEIGHT
+      const gameOffsetX = (canvas.width - GAME_WIDTH) / 2;
+      const gameOffsetY = (canvas.height - GAME_HEIGHT) / 2;
 
       // Convert to game coordinates
       const gameX = rawX - gameOffsetX;
@@ -676,20 +916,27 @@ const AIGameWorkshop: React.FC = () => {
   useEffect(() => {
     let animationFrame: number;
 
+    let lastSnapshot = "";
+
+    // Every connected pad, but only re-render when one of them changed
     const updateGamepad = () => {
-      const gamepads = navigator.getGamepads();
-      const gamepad = gamepads[0];
+      const gamepads = Array.from(navigator.getGamepads())
+        .filter((pad): pad is Gamepad => !!pad)
+        .map((pad) => ({
+          index: pad.index,
+          id: pad.id,
+          buttons: Array.from(pad.buttons).map((button) => button.pressed),
+          axes: Array.from(pad.axes),
+          connected: pad.connected,
+        }));
 
-      if (gamepad) {
+      const snapshot = JSON.stringify(gamepads);
+      if (snapshot !== lastSnapshot) {
+        lastSnapshot = snapshot;
         setControls((prev) => ({
           ...prev,
-          gamepad: {
-            buttons: Array.from(gamepad.buttons).map(
-              (button) => button.pressed
-            ),
-            axes: Array.from(gamepad.axes),
-            connected: true,
-          },
+          gamepad: gamepads[0] ?? null,
+          gamepads,
         }));
       }
 
@@ -705,137 +952,156 @@ const AIGameWorkshop: React.FC = () => {
     }
   }, [isPlaying]);
 
-  const startGame = (game: GameConfig) => {
+  const startGame = (game: GameConfig, nextMode = "solo") => {
+    setReplay(null);
+    setDifficulty("normal");
+    setMode(nextMode);
     setSelectedGame(game);
     setIsPlaying(true);
     setGameState({});
   };
 
-  // Handle laser shooting
-  const handleCanvasShoot = (event: React.MouseEvent<HTMLCanvasElement>) => {
-    if (selectedGame?.name !== "Neural Network Pong") return;
-
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    const rect = canvas.getBoundingClientRect();
-    const scaleX = canvas.width / rect.width;
-    const scaleY = canvas.height / rect.height;
-
-    // Get mouse coordinates relative to full canvas
-    const rawX = (event.clientX - rect.left) * scaleX;
-    const rawY = (event.clientY - rect.top) * scaleY;
-
-    // Calculate game area offset (centering)
-    const gameOffsetX = (canvas.width - 800) / 2; // 800 is CANVAS_WIDTH
-    const gameOffsetY = (canvas.height - 600) / 2; // 600 is CANVAS_HEIGHT
-
-    // Convert to game coordinates
-    const targetX = rawX - gameOffsetX;
-    const targetY = rawY - gameOffsetY;
-
-    // Only shoot if clicking within the game area
-    if (targetX >= 0 && targetX <= 800 && targetY >= 0 && targetY <= 600) {
-      // Call the neural pong laser handler directly
-      const handler = (window as unknown as Record<string, unknown>)
-        .neuralPongLaserHandler as
-        | ((event: {
-            type: string;
-            data: { targetX: number; targetY: number; timestamp: number };
-          }) => void)
-        | undefined;
-      if (handler) {
-        handler({
-          type: "LASER_SHOOT",
-          data: { targetX, targetY, timestamp: Date.now() },
-        });
-      }
+  // Plays an uploaded replay back in the game that recorded it
+  const loadReplay = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ""; // Let the same file be picked again
+    if (!file) return;
+
+    const loaded = parseReplay(await file.text());
+    const game = availableGames.find(
+      (g) => g.replayable && g.id === loaded?.gameId
+    );
+    if (!loaded || !game) {
+      setReplayError("That file isn't a replay of any game here.");
+      return;
     }
+
+    setReplayError(null);
+    setReplay(loaded);
+    setDifficulty(loaded.difficulty ?? "normal");
+    setMode(loaded.mode ?? "solo");
+    setSelectedGame(game);
+    setIsPlaying(true);
+    setGameState({});
   };
 
-  const handleTouchShoot = (event: React.TouchEvent<HTMLCanvasElement>) => {
-    if (selectedGame?.name !== "Neural Network Pong") return;
+  // Keeps the latest trained network and starts the next runs from it
+  const saveTrainedBrain = (name: string) => {
+    if (!trainedBrain) return;
+    saveBrain({ ...trainedBrain, name, savedAt: Date.now() });
+    setBrainName(name);
+    setBrainError(null);
+  };
 
-    event.preventDefault();
-    const canvas = canvasRef.current;
-    if (!canvas || event.touches.length === 0) return;
-
-    const rect = canvas.getBoundingClientRect();
-    const scaleX = canvas.width / rect.width;
-    const scaleY = canvas.height / rect.height;
-
-    const touch = event.touches[0];
-    // Get touch coordinates relative to full canvas
-    const rawX = (touch.clientX - rect.left) * scaleX;
-    const rawY = (touch.clientY - rect.top) * scaleY;
-
-    // Calculate game area offset (centering)
-    const gameOffsetX = (canvas.width - 800) / 2; // 800 is CANVAS_WIDTH
-    const gameOffsetY = (canvas.height - 600) / 2; // 600 is CANVAS_HEIGHT
-
-    // Convert to game coordinates
-    const targetX = rawX - gameOffsetX;
-    const targetY = rawY - gameOffsetY;
-
-    // Only shoot if touching within the game area
-    if (targetX >= 0 && targetX <= 800 && targetY >= 0 && targetY <= 600) {
-      // Call the neural pong laser handler directly
-      const handler = (window as unknown as Record<string, unknown>)
-        .neuralPongLaserHandler as
-        | ((event: {
-            type: string;
-            data: { targetX: number; targetY: number; timestamp: number };
-          }) => void)
-        | undefined;
-      if (handler) {
-        handler({
-          type: "LASER_SHOOT",
-          data: { targetX, targetY, timestamp: Date.now() },
-        });
-      }
+  const importBrain = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ""; // Let the same file be picked again
+    if (!file) return;
+
+    const loaded = parseBrain(await file.text());
+    if (
+      !loaded ||
+      !availableGames.some((g) => g.brains && g.id === loaded.gameId)
+    ) {
+      setBrainError("That file isn't a brain for any game here.");
+      return;
     }
+    setBrainError(null);
+    saveBrain(loaded);
+  };
+
+  const removeBrain = (name: string) => {
+    deleteBrain(name);
+    if (name === brainName) setBrainName(null);
+  };
+
+  // A user-made arena; loading one again under the same name replaces it
+  const importLevel = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ""; // Let the same file be picked again
+    if (!file) return;
+
+    const loaded = parseLevel(await file.text());
+    if (!loaded) {
+      setLevelError("That file isn't a valid level.");
+      return;
+    }
+    if (SNAKE_LEVELS.some((level) => level.name === loaded.name)) {
+      setLevelError(`A preset is already called "${loaded.name}".`);
+      return;
+    }
+    setLevelError(null);
+    setCustomLevels((levels) => [
+      ...levels.filter((level) => level.name !== loaded.name),
+      loaded,
+    ]);
+    setLevelName(loaded.name);
+  };
+
+  // Clicks and taps inside the game area become LASER_SHOOT commands;
+  // games that don't shoot simply ignore them
+  const shootAt = (clientX: number, clientY: number) => {
+    if (!canvasRef.current) return;
+    const target = toGameCoordinates(canvasRef.current, clientX, clientY);
+    if (!target) return;
+    commandBus.send({
+      type: "LASER_SHOOT",
+      data: { targetX: target.x, targetY: target.y },
+    });
+  };
+
+  const handleCanvasShoot = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    shootAt(event.clientX, event.clientY);
+  };
+
+  const handleTouchShoot = (event: React.TouchEvent<HTMLCanvasElement>) => {
+    event.preventDefault();
+    if (event.touches.length === 0) return;
+    shootAt(event.touches[0].clientX, event.touches[0].clientY);
   };
 
   const exitGame = () => {
     setIsPlaying(false);
     setSelectedGame(null);
+    setReplay(null);
     setGameState({});
-    setShowGameOverModal(false);
     setGameResult(null);
   };
 
-  const playAgain = () => {
-    setShowGameOverModal(false);
-    setGameResult(null);
-    setGameState({}); // Reset game state to restart
-  };
-
   const tryAgain = () => {
-    // Same as playAgain but for in-game overlay
-    setGameState({}); // Reset game state to restart
+    setGameResult(null);
+    commandBus.send({ type: "RESTART" });
   };
 
-  const backToDashboard = () => {
-    exitGame();
+  // A new difficulty means a new session, so restart from scratch
+  const changeDifficulty = (next: string) => {
+    setDifficulty(next);
+    setReplay(null);
+    setGameResult(null);
+    setGameState({});
   };
 
-  if (isPlaying && selectedGame) {
+  if (isPlaying && selectedGame && session) {
     const GameComponent = selectedGame.component;
 
     return (
       <GameEngine>
+        {personalBest && (
+          <PersonalBestBanner role="status">
+            🏆 New personal best in {personalBest.gameName}:{" "}
+            {personalBest.score}!
+            {personalBest.previousBest !== null && (
+              <small>Previous best: {personalBest.previousBest}</small>
+            )}
+          </PersonalBestBanner>
+        )}
         <GameCanvas
           ref={canvasRef}
           width={window.innerWidth}
           height={window.innerHeight}
           onClick={handleCanvasShoot}
           onTouchStart={handleTouchShoot}
-          style={{
-            cursor:
-              selectedGame?.name === "Neural Network Pong"
-                ? "crosshair"
-                : "default",
-          }}
+          style={{ cursor: selectedGame.cursor ?? "default" }}
         />
         <GameOverlay>
           {selectedGame.name !== "Neural Network Pong" && (
@@ -845,22 +1111,55 @@ const AIGameWorkshop: React.FC = () => {
             </GameUI>
           )}
           <GameButtonsContainer>
+            {session.isReplaying() && <ReplayBadge>📼 REPLAY</ReplayBadge>}
+            {selectedGame.replayable && !session.isReplaying() && (
+              <PauseButton onClick={() => downloadReplay(session.toReplay())}>
+                💾 Save Replay
+              </PauseButton>
+            )}
             {/* Show Try Again button when game is over */}
-            {(gameState as { gameOver?: boolean }).gameOver && (
+            {(gameState as { gameOver?: boolean }).gameOver ? (
               <TryAgainButton onClick={tryAgain}>
                 🔄 Try Again (R)
               </TryAgainButton>
+            ) : (
+              <PauseButton
+                onClick={() => commandBus.send({ type: "TOGGLE_PAUSE" })}
+              >
+                {(gameState as { paused?: boolean }).paused
+                  ? "▶️ Resume"
+                  : "⏸️ Pause"}{" "}
+                (Space)
+              </PauseButton>
             )}
             <ExitButton onClick={exitGame}>🏠 Exit Game (ESC)</ExitButton>
           </GameButtonsContainer>
         </GameOverlay>
-        <GameComponent
-          canvas={canvasRef}
-          gameState={gameState}
-          setGameState={setGameState}
-          controls={controls}
-          onGameEvent={handleGameEvent}
-        />
+        <FeatureErrorBoundary key={selectedGame.id} label={selectedGame.name}>
+          <GameComponent
+            canvas={canvasRef}
+            gameState={gameState}
+            setGameState={setGameState}
+            controls={gameControls}
+            onGameEvent={handleGameEvent}
+            commands={commandBus}
+            session={session}
+            difficulty={difficulty}
+            mode={mode}
+            brain={startingBrain}
+            level={startingLevel}
+          />
+        </FeatureErrorBoundary>
+        {gameResult && (
+          <GameResults
+            game={selectedGame}
+            result={gameResult}
+            difficulty={difficulty}
+            onRetry={tryAgain}
+            onChangeDifficulty={changeDifficulty}
+            onExit={exitGame}
+          />
+        )}
       </GameEngine>
     );
   }
@@ -868,6 +1167,14 @@ const AIGameWorkshop: React.FC = () => {
   return (
     <WorkshopContainer>
       <MatrixBackground />
+      {personalBest && (
+        <PersonalBestBanner role="status">
+          🏆 New personal best in {personalBest.gameName}: {personalBest.score}!
+          {personalBest.previousBest !== null && (
+            <small>Previous best: {personalBest.previousBest}</small>
+          )}
+        </PersonalBestBanner>
+      )}
 
       <WorkshopHeader>
         <WorkshopTitle>🎮 AI Game Workshop</WorkshopTitle>
@@ -878,6 +1185,83 @@ const AIGameWorkshop: React.FC = () => {
         </WorkshopSubtitle>
       </WorkshopHeader>
 
+      <MenuBar>
+        <MenuButton>
+          📼 Load Replay
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={loadReplay}
+          />
+        </MenuButton>
+        <MenuButton
+          as="button"
+          onClick={() => setShowControls((shown) => !shown)}
+        >
+          🎮 {showControls ? "Hide" : "Show"} Controls
+        </MenuButton>
+        <MenuButton
+          as="button"
+          onClick={() => setShowLeaderboard((shown) => !shown)}
+        >
+          🏆 {showLeaderboard ? "Hide" : "Show"} Leaderboard
+        </MenuButton>
+        <MenuButton
+          as="button"
+          onClick={() => setShowBrains((shown) => !shown)}
+        >
+          🧠 {brainName ? `Brain: ${brainName}` : "Brains"}
+        </MenuButton>
+        <MenuButton
+          as="button"
+          onClick={() => setShowLevels((shown) => !shown)}
+        >
+          🗺️ Arena: {levelName ?? SNAKE_LEVELS[0].name}
+        </MenuButton>
+        {lastReplay && (
+          <MenuButton as="button" onClick={() => downloadReplay(lastReplay)}>
+            💾 Save Last Run
+          </MenuButton>
+        )}
+        {replayError && <ReplayError>{replayError}</ReplayError>}
+      </MenuBar>
+
+      {showControls && (
+        <ControlSettings
+          bindings={bindings}
+          onChange={setBindings}
+          onReset={resetBindings}
+        />
+      )}
+
+      {showBrains && (
+        <BrainLibrary
+          brains={brains}
+          activeBrain={brainName}
+          canSave={!!trainedBrain}
+          error={brainError}
+          onSave={saveTrainedBrain}
+          onUse={setBrainName}
+          onDelete={removeBrain}
+          onExport={downloadBrain}
+          onImport={importBrain}
+        />
+      )}
+
+      {showLevels && (
+        <LevelPicker
+          levels={[...SNAKE_LEVELS, ...customLevels]}
+          activeLevel={levelName ?? SNAKE_LEVELS[0].name}
+          error={levelError}
+          onUse={setLevelName}
+          onImport={importLevel}
+        />
+      )}
+
+      {showLeaderboard && (
+        <GameLeaderboard games={availableGames} refreshKey={scoresVersion} />
+      )}
+
       <GameGrid>
         {availableGames.map((game) => (
           <GameCard key={game.id} onClick={() => startGame(game)}>
@@ -893,53 +1277,25 @@ const AIGameWorkshop: React.FC = () => {
                 ))}
               </ControlIcons>
             </GameMeta>
+
+            {game.modes && (
+              <ModeButtons>
+                {game.modes.map((option) => (
+                  <ModeButton
+                    key={option.id}
+                    onClick={(event) => {
+                      event.stopPropagation();
+                      startGame(game, option.id);
+                    }}
+                  >
+                    {option.label}
+                  </ModeButton>
+                ))}
+              </ModeButtons>
+            )}
           </GameCard>
         ))}
       </GameGrid>
-
-      {/* Game Over Modal */}
-      {showGameOverModal && gameResult && (
-        <GameOverModal>
-          <ModalContent>
-            <ModalTitle>
-              {gameResult.winner === "player" ? "🎉 Victory!" : "🤖 AI Wins!"}
-            </ModalTitle>
-
-            <ModalStats>
-              <div className="final-score">
-                Final Score: {gameResult.playerScore} - {gameResult.aiScore}
-              </div>
-
-              <div className="stat-row">
-                <span>Your Score:</span>
-                <span>{gameResult.playerScore}</span>
-              </div>
-
-              <div className="stat-row">
-                <span>AI Score:</span>
-                <span>{gameResult.aiScore}</span>
-              </div>
-
-              <div className="stat-row">
-                <span>Best Rally:</span>
-                <span>{gameResult.maxRally} hits</span>
-              </div>
-
-              <div className="stat-row">
-                <span>Game:</span>
-                <span>{selectedGame?.name}</span>
-              </div>
-            </ModalStats>
-
-            <ModalButtons>
-              <ModalButton $primary onClick={playAgain}>
-                🔄 Play Again
-              </ModalButton>
-              <ModalButton onClick={backToDashboard}>🏠 Dashboard</ModalButton>
-            </ModalButtons>
-          </ModalContent>
-        </GameOverModal>
-      )}
     </WorkshopContainer>
   );
 };
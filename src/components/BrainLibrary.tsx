@@ -0,0 +1,178 @@
+import React, { useState } from "react";
+import styled from "styled-components";
+import type { SavedBrain } from "../types/gameTypes";
+
+/* 🧱 Styled Components */
+const Panel = styled.section`
+  position: relative;
+  z-index: 1;
+  max-width: 900px;
+  margin: 0 auto 3rem;
+  padding: 1.5rem;
+  background: rgba(0, 0, 0, 0.6);
+  border: 1px solid rgba(102, 126, 234, 0.4);
+  border-radius: 16px;
+  backdrop-filter: blur(10px);
+
+  h3 {
+    color: #4ecdc4;
+    margin-bottom: 1rem;
+  }
+`;
+
+const Row = styled.div<{ $active?: boolean }>`
+  display: flex;
+  align-items: center;
+  gap: 0.5rem;
+  flex-wrap: wrap;
+  padding: 0.5rem;
+  border-radius: 8px;
+  border-bottom: 1px solid rgba(255, 255, 255, 0.08);
+  background: ${({ $active }) =>
+    $active ? "rgba(78, 205, 196, 0.15)" : "transparent"};
+
+  strong {
+    flex: 1;
+  }
+
+  small {
+    opacity: 0.6;
+  }
+`;
+
+const SmallButton = styled.button`
+  padding: 0.25rem 0.7rem;
+  border-radius: 6px;
+  border: 1px solid rgba(255, 255, 255, 0.3);
+  background: transparent;
+  color: white;
+  cursor: pointer;
+
+  &:disabled {
+    opacity: 0.4;
+    cursor: default;
+  }
+`;
+
+const ImportLabel = styled.label`
+  padding: 0.25rem 0.7rem;
+  border-radius: 6px;
+  border: 1px dashed rgba(255, 255, 255, 0.4);
+  cursor: pointer;
+
+  input {
+    display: none;
+  }
+`;
+
+const NameInput = styled.input`
+  flex: 1;
+  min-width: 10rem;
+  padding: 0.3rem 0.6rem;
+  border-radius: 6px;
+  border: 1px solid rgba(255, 255, 255, 0.3);
+  background: rgba(0, 0, 0, 0.4);
+  color: white;
+`;
+
+const Hint = styled.p`
+  margin-top: 1rem;
+  font-size: 0.9rem;
+  opacity: 0.7;
+`;
+
+interface BrainLibraryProps {
+  brains: SavedBrain[];
+  activeBrain: string | null; // Name of the starting brain; null for a fresh one
+  canSave: boolean; // An AI has learned something this visit
+  error?: string | null;
+  onSave: (name: string) => void;
+  onUse: (name: string | null) => void;
+  onDelete: (name: string) => void;
+  onExport: (brain: SavedBrain) => void;
+  onImport: (event: React.ChangeEvent<HTMLInputElement>) => void;
+}
+
+// Saved AI opponents: keep the one you just trained, pick who you play next
+export const BrainLibrary: React.FC<BrainLibraryProps> = ({
+  brains,
+  activeBrain,
+  canSave,
+  error,
+  onSave,
+  onUse,
+  onDelete,
+  onExport,
+  onImport,
+}) => {
+  const [name, setName] = useState("");
+
+  const save = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!name.trim()) return;
+    onSave(name.trim());
+    setName("");
+  };
+
+  return (
+    <Panel>
+      <h3>🧠 AI Brains</h3>
+
+      <Row as="form" onSubmit={save}>
+        <NameInput
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          placeholder={
+            canSave ? "Name the brain you just trained" : "Play a round first"
+          }
+          disabled={!canSave}
+          maxLength={40}
+        />
+        <SmallButton type="submit" disabled={!canSave || !name.trim()}>
+          💾 Save
+        </SmallButton>
+        <ImportLabel>
+          📥 Import
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={onImport}
+          />
+        </ImportLabel>
+      </Row>
+
+      <Row $active={activeBrain === null}>
+        <strong>🎲 Fresh random brain</strong>
+        <SmallButton onClick={() => onUse(null)} disabled={!activeBrain}>
+          {activeBrain ? "Use" : "✓ In use"}
+        </SmallButton>
+      </Row>
+      {brains.map((brain) => (
+        <Row key={brain.name} $active={brain.name === activeBrain}>
+          <strong>{brain.name}</strong>
+          <small>{new Date(brain.savedAt).toLocaleString()}</small>
+          <SmallButton
+            onClick={() => onUse(brain.name)}
+            disabled={brain.name === activeBrain}
+          >
+            {brain.name === activeBrain ? "✓ In use" : "Use"}
+          </SmallButton>
+          <SmallButton onClick={() => onExport(brain)}>📤 Export</SmallButton>
+          <SmallButton
+            aria-label={`Delete ${brain.name}`}
+            onClick={() => onDelete(brain.name)}
+          >
+            🗑️
+          </SmallButton>
+        </Row>
+      ))}
+
+      <Hint>
+        {error ??
+          "Neural Network Pong starts from the brain in use and keeps learning as you play."}
+      </Hint>
+    </Panel>
+  );
+};
+
+export default BrainLibrary;
@@ -0,0 +1,313 @@
+import React, { useEffect, useState } from "react";
+import styled from "styled-components";
+import {
+  bindGamepadInput,
+  bindKey,
+  describeGamepadInput,
+  describeKey,
+  sameGamepadInput,
+} from "./games/inputBindings";
+import {
+  GAME_ACTIONS,
+  GameAction,
+  GamepadInput,
+  InputBindings,
+} from "../types/gameTypes";
+
+/* 🧱 Styled Components */
+const Panel = styled.section`
+  position: relative;
+  z-index: 1;
+  max-width: 900px;
+  margin: 0 auto 3rem;
+  padding: 1.5rem;
+  background: rgba(0, 0, 0, 0.6);
+  border: 1px solid rgba(102, 126, 234, 0.4);
+  border-radius: 16px;
+  backdrop-filter: blur(10px);
+`;
+
+const PanelHeader = styled.div`
+  display: flex;
+  justify-content: space-between;
+  align-items: center;
+  gap: 1rem;
+  flex-wrap: wrap;
+  margin-bottom: 1rem;
+
+  h3 {
+    color: #4ecdc4;
+  }
+`;
+
+const BindingTable = styled.table`
+  width: 100%;
+  border-collapse: collapse;
+
+  th,
+  td {
+    padding: 0.5rem;
+    text-align: left;
+    vertical-align: middle;
+    border-bottom: 1px solid rgba(255, 255, 255, 0.08);
+  }
+
+  th {
+    opacity: 0.6;
+    font-weight: 600;
+  }
+`;
+
+const Chip = styled.span`
+  display: inline-flex;
+  align-items: center;
+  gap: 0.25rem;
+  margin: 0.15rem;
+  padding: 0.2rem 0.5rem;
+  border-radius: 6px;
+  background: rgba(102, 126, 234, 0.3);
+  font-family: monospace;
+
+  button {
+    background: none;
+    border: none;
+    color: inherit;
+    opacity: 0.6;
+    cursor: pointer;
+  }
+`;
+
+const SmallButton = styled.button<{ $listening?: boolean }>`
+  margin: 0.15rem;
+  padding: 0.2rem 0.6rem;
+  border-radius: 6px;
+  border: 1px dashed rgba(255, 255, 255, 0.4);
+  background: ${({ $listening }) =>
+    $listening ? "rgba(255, 193, 7, 0.5)" : "transparent"};
+  color: white;
+  cursor: pointer;
+`;
+
+const PadList = styled.p`
+  margin-top: 1rem;
+  font-size: 0.9rem;
+  opacity: 0.7;
+`;
+
+interface ControlSettingsProps {
+  bindings: InputBindings;
+  onChange: (bindings: InputBindings) => void;
+  onReset: () => void;
+}
+
+type Device = "keyboard" | "player2" | "gamepad";
+type Listening = { action: GameAction; device: Device } | null;
+
+const ACTION_LABELS: Record<GameAction, string> = {
+  up: "⬆️ Up",
+  down: "⬇️ Down",
+  left: "⬅️ Left",
+  right: "➡️ Right",
+  fire: "💥 Fire",
+  pause: "⏸️ Pause",
+  drop: "⏬ Drop",
+  hold: "📥 Hold",
+};
+
+const connectedPads = () =>
+  Array.from(navigator.getGamepads?.() ?? []).filter(
+    (pad): pad is Gamepad => !!pad
+  );
+
+// First button or stick direction that went down since `baseline` was taken
+function findNewGamepadInput(
+  baseline: Map<number, boolean[]>
+): GamepadInput | null {
+  for (const pad of connectedPads()) {
+    const before = baseline.get(pad.index) ?? [];
+    const button = pad.buttons.findIndex(
+      (b, index) => b.pressed && !before[index]
+    );
+    if (button !== -1) return { type: "button", index: button };
+
+    const axis = pad.axes.findIndex((value) => Math.abs(value) > 0.6);
+    if (axis !== -1) {
+      return {
+        type: "axis",
+        index: axis,
+        direction: pad.axes[axis] < 0 ? -1 : 1,
+      };
+    }
+  }
+  return null;
+}
+
+// Rebind keys and gamepad inputs for each abstract game action
+export const ControlSettings: React.FC<ControlSettingsProps> = ({
+  bindings,
+  onChange,
+  onReset,
+}) => {
+  const [listening, setListening] = useState<Listening>(null);
+  const [pads, setPads] = useState<string[]>([]);
+
+  // Keep the list of connected pads fresh
+  useEffect(() => {
+    const refresh = () =>
+      setPads(connectedPads().map((pad) => `#${pad.index + 1} ${pad.id}`));
+    refresh();
+    window.addEventListener("gamepadconnected", refresh);
+    window.addEventListener("gamepaddisconnected", refresh);
+    return () => {
+      window.removeEventListener("gamepadconnected", refresh);
+      window.removeEventListener("gamepaddisconnected", refresh);
+    };
+  }, []);
+
+  // Next key press goes to the action being rebound; Escape cancels
+  useEffect(() => {
+    const keySet = listening?.device;
+    if (!listening || keySet === "gamepad" || !keySet) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      if (e.key !== "Escape") {
+        onChange(bindKey(bindings, listening.action, e.key, keySet));
+      }
+      setListening(null);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [listening, bindings, onChange]);
+
+  // Next pad button or stick push goes to the action being rebound
+  useEffect(() => {
+    if (listening?.device !== "gamepad") return;
+    const baseline = new Map(
+      connectedPads().map((pad) => [
+        pad.index,
+        pad.buttons.map((button) => button.pressed),
+      ])
+    );
+    let frame = 0;
+    const poll = () => {
+      const input = findNewGamepadInput(baseline);
+      if (input) {
+        onChange(bindGamepadInput(bindings, listening.action, input));
+        setListening(null);
+        return;
+      }
+      frame = requestAnimationFrame(poll);
+    };
+    frame = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(frame);
+  }, [listening, bindings, onChange]);
+
+  const unbindKey = (
+    action: GameAction,
+    key: string,
+    keySet: "keyboard" | "player2"
+  ) =>
+    onChange({
+      ...bindings,
+      [keySet]: {
+        ...bindings[keySet],
+        [action]: bindings[keySet][action].filter((bound) => bound !== key),
+      },
+    });
+
+  const unbindGamepadInput = (action: GameAction, input: GamepadInput) =>
+    onChange({
+      ...bindings,
+      gamepad: {
+        ...bindings.gamepad,
+        [action]: bindings.gamepad[action].filter(
+          (bound) => !sameGamepadInput(bound, input)
+        ),
+      },
+    });
+
+  const isListening = (action: GameAction, device: Device) =>
+    listening?.action === action && listening.device === device;
+
+  const keyCell = (action: GameAction, keySet: "keyboard" | "player2") => (
+    <td>
+      {bindings[keySet][action].map((key) => (
+        <Chip key={key}>
+          {describeKey(key)}
+          <button
+            aria-label={`Unbind ${describeKey(key)}`}
+            onClick={() => unbindKey(action, key, keySet)}
+          >
+            ×
+          </button>
+        </Chip>
+      ))}
+      <SmallButton
+        $listening={isListening(action, keySet)}
+        onClick={() => setListening({ action, device: keySet })}
+      >
+        {isListening(action, keySet) ? "Press a key…" : "+ Key"}
+      </SmallButton>
+    </td>
+  );
+
+  return (
+    <Panel>
+      <PanelHeader>
+        <h3>🎮 Controls</h3>
+        <SmallButton onClick={onReset}>↩️ Reset to defaults</SmallButton>
+      </PanelHeader>
+
+      <BindingTable>
+        <thead>
+          <tr>
+            <th>Action</th>
+            <th>Keyboard</th>
+            <th>Gamepad</th>
+            <th>Player 2 keys (versus)</th>
+          </tr>
+        </thead>
+        <tbody>
+          {GAME_ACTIONS.map((action) => (
+            <tr key={action}>
+              <td>{ACTION_LABELS[action]}</td>
+              {keyCell(action, "keyboard")}
+              <td>
+                {bindings.gamepad[action].map((input) => (
+                  <Chip key={describeGamepadInput(input)}>
+                    {describeGamepadInput(input)}
+                    <button
+                      aria-label={`Unbind ${describeGamepadInput(input)}`}
+                      onClick={() => unbindGamepadInput(action, input)}
+                    >
+                      ×
+                    </button>
+                  </Chip>
+                ))}
+                <SmallButton
+                  $listening={isListening(action, "gamepad")}
+                  onClick={() => setListening({ action, device: "gamepad" })}
+                >
+                  {isListening(action, "gamepad")
+                    ? "Press a button…"
+                    : "+ Button"}
+                </SmallButton>
+              </td>
+              {keyCell(action, "player2")}
+            </tr>
+          ))}
+        </tbody>
+      </BindingTable>
+
+      <PadList>
+        {pads.length > 0
+          ? `Connected pads (all of them control the game; in versus the first is player 1 and the second player 2): ${pads.join(
+              ", "
+            )}`
+          : "No gamepads yet. Press a button on one to wake it up."}
+      </PadList>
+    </Panel>
+  );
+};
+
+export default ControlSettings;
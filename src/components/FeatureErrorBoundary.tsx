@@ -0,0 +1,140 @@
+import React from "react";
+import styled, { keyframes } from "styled-components";
+
+/* 💅 Animations */
+const wobble = keyframes`
+  0%, 100% {
+    transform: rotate(0deg);
+  }
+  25% {
+    transform: rotate(-8deg);
+  }
+  75% {
+    transform: rotate(8deg);
+  }
+`;
+
+/* 🧱 Styled Components */
+const Fallback = styled.div`
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  gap: 1rem;
+  margin: 2rem auto;
+  padding: 2.5rem 2rem;
+  max-width: 560px;
+  text-align: center;
+  color: #eaeaea;
+  background: #1a1b20;
+  border-radius: 16px;
+  border: 6px solid transparent;
+  border-image: repeating-linear-gradient(
+      45deg,
+      #ff7a18 0 16px,
+      #0b0c0f 16px 32px
+    )
+    6;
+`;
+
+const Cone = styled.div`
+  font-size: 3rem;
+  animation: ${wobble} 1.2s ease-in-out infinite;
+`;
+
+const FallbackTitle = styled.h2`
+  font-size: 1.4rem;
+  color: #ff7a18;
+`;
+
+const FallbackDetail = styled.p`
+  font-size: 0.9rem;
+  opacity: 0.7;
+
+  code {
+    background: #222;
+    padding: 0.2rem 0.4rem;
+    border-radius: 6px;
+  }
+`;
+
+const RetryButton = styled.button`
+  padding: 0.6rem 1.2rem;
+  background: linear-gradient(180deg, #ff8e2b, #ff7a18);
+  color: #0b0c0f;
+  border: none;
+  border-radius: 8px;
+  font-weight: 700;
+  cursor: pointer;
+`;
+
+interface FeatureErrorBoundaryProps {
+  label: string;
+  children: React.ReactNode;
+}
+
+interface FeatureErrorBoundaryState {
+  error: Error | null;
+}
+
+// Files the crash with /api/errors so it can be reviewed later
+function reportError(zone: string, error: Error, componentStack?: string) {
+  fetch("/api/errors", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      zone,
+      name: error.name,
+      message: error.message,
+      stack: error.stack,
+      componentStack,
+      url: window.location.href,
+    }),
+  }).catch(() => {});
+}
+
+// Fences off a crashed feature, experiment or game so the rest of the page keeps working
+export class FeatureErrorBoundary extends React.Component<
+  FeatureErrorBoundaryProps,
+  FeatureErrorBoundaryState
+> {
+  state: FeatureErrorBoundaryState = { error: null };
+
+  static getDerivedStateFromError(error: Error): FeatureErrorBoundaryState {
+    return { error };
+  }
+
+  componentDidCatch(error: Error, info: React.ErrorInfo) {
+    reportError(this.props.label, error, info.componentStack ?? undefined);
+  }
+
+  handleRetry = () => {
+    // React.lazy remembers a failed chunk download, so only a reload fetches it again
+    if (this.state.error?.name === "ChunkLoadError") {
+      window.location.reload();
+      return;
+    }
+    this.setState({ error: null });
+  };
+
+  render() {
+    const { error } = this.state;
+    if (!error) return this.props.children;
+
+    return (
+      <Fallback role="alert">
+        <Cone>🚧</Cone>
+        <FallbackTitle>This zone is under construction</FallbackTitle>
+        <p>
+          {this.props.label} tripped over a loose cable. The crew has been
+          notified.
+        </p>
+        <FallbackDetail>
+          <code>{error.message || error.name}</code>
+        </FallbackDetail>
+        <RetryButton onClick={this.handleRetry}>🔄 Try again</RetryButton>
+      </Fallback>
+    );
+  }
+}
+
+export default FeatureErrorBoundary;
@@ -0,0 +1,179 @@
+import React, { useEffect, useState } from "react";
+import styled from "styled-components";
+import type { GameConfig, GameRun, GameScoreboard } from "../types/gameTypes";
+
+/* 🧱 Styled Components */
+const Board = styled.section`
+  position: relative;
+  z-index: 1;
+  max-width: 900px;
+  margin: 0 auto 3rem;
+  padding: 1.5rem;
+  background: rgba(0, 0, 0, 0.6);
+  border: 1px solid rgba(102, 126, 234, 0.4);
+  border-radius: 16px;
+  backdrop-filter: blur(10px);
+`;
+
+const Tabs = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 0.5rem;
+  margin-bottom: 1.5rem;
+`;
+
+const Tab = styled.button<{ $active: boolean }>`
+  padding: 0.5rem 1rem;
+  border-radius: 8px;
+  border: 1px solid rgba(102, 126, 234, 0.5);
+  background: ${({ $active }) =>
+    $active ? "rgba(102, 126, 234, 0.6)" : "transparent"};
+  color: white;
+  cursor: pointer;
+`;
+
+const SectionTitle = styled.h3`
+  margin: 1rem 0 0.5rem;
+  color: #4ecdc4;
+`;
+
+const RunTable = styled.table`
+  width: 100%;
+  border-collapse: collapse;
+  font-size: 0.9rem;
+
+  th,
+  td {
+    padding: 0.4rem 0.6rem;
+    text-align: left;
+    border-bottom: 1px solid rgba(255, 255, 255, 0.08);
+  }
+
+  th {
+    opacity: 0.6;
+    font-weight: 600;
+  }
+`;
+
+const Empty = styled.p`
+  opacity: 0.6;
+`;
+
+interface GameLeaderboardProps {
+  games: GameConfig[];
+  refreshKey?: number; // Bump to refetch, e.g. after a run was recorded
+}
+
+const formatDuration = (ms: number) => {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+// Max rally for Pong, length for Snake, whatever the game reported
+const formatDetail = (run: GameRun) =>
+  run.maxRally !== undefined
+    ? `${run.maxRally} rally`
+    : run.length !== undefined
+    ? `${run.length} long`
+    : "—";
+
+const RunRows: React.FC<{ runs: GameRun[]; ranked?: boolean }> = ({
+  runs,
+  ranked,
+}) => (
+  <RunTable>
+    <thead>
+      <tr>
+        {ranked && <th>#</th>}
+        <th>Score</th>
+        <th>Best</th>
+        <th>Time</th>
+        <th>Difficulty</th>
+        <th>Result</th>
+        <th>Date</th>
+      </tr>
+    </thead>
+    <tbody>
+      {runs.map((run, index) => (
+        <tr key={`${run.playedAt}-${index}`}>
+          {ranked && <td>{index + 1}</td>}
+          <td>{run.score}</td>
+          <td>{formatDetail(run)}</td>
+          <td>{formatDuration(run.durationMs)}</td>
+          <td>{run.difficulty}/10</td>
+          <td>{run.winner === "player" ? "🏆 Won" : run.winner}</td>
+          <td>{new Date(run.playedAt).toLocaleDateString()}</td>
+        </tr>
+      ))}
+    </tbody>
+  </RunTable>
+);
+
+// Per-game high scores and your own recent runs, from /api/scores
+export const GameLeaderboard: React.FC<GameLeaderboardProps> = ({
+  games,
+  refreshKey = 0,
+}) => {
+  const [gameId, setGameId] = useState(games[0]?.id ?? "");
+  const [board, setBoard] = useState<GameScoreboard | null>(null);
+
+  useEffect(() => {
+    if (!gameId) return;
+    let cancelled = false;
+    setBoard(null);
+    fetch(`/api/scores?gameId=${encodeURIComponent(gameId)}`)
+      .then((res) => (res.ok ? res.json() : Promise.reject(res.status)))
+      .then((data: GameScoreboard) => {
+        if (!cancelled) setBoard(data);
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setBoard({ leaderboard: [], history: [], personalBest: null });
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [gameId, refreshKey]);
+
+  return (
+    <Board>
+      <Tabs>
+        {games.map((game) => (
+          <Tab
+            key={game.id}
+            $active={game.id === gameId}
+            onClick={() => setGameId(game.id)}
+          >
+            {game.icon} {game.name}
+          </Tab>
+        ))}
+      </Tabs>
+
+      {!board ? (
+        <Empty>Loading scores...</Empty>
+      ) : board.leaderboard.length === 0 ? (
+        <Empty>No runs yet. Be the first on the board!</Empty>
+      ) : (
+        <>
+          <SectionTitle>🏆 High Scores</SectionTitle>
+          <RunRows runs={board.leaderboard} ranked />
+
+          {board.personalBest && (
+            <SectionTitle>
+              ⭐ Your best: {board.personalBest.score}
+            </SectionTitle>
+          )}
+          {board.history.length > 0 && (
+            <>
+              <SectionTitle>🕑 Your Recent Runs</SectionTitle>
+              <RunRows runs={board.history} />
+            </>
+          )}
+        </>
+      )}
+    </Board>
+  );
+};
+
+export default GameLeaderboard;
@@ -0,0 +1,224 @@
+import React, { useState } from "react";
+import styled from "styled-components";
+import type { GameConfig, GameResult } from "../types/gameTypes";
+
+/* 🧱 Styled Components */
+const GameOverModal = styled.div`
+  position: fixed;
+  top: 0;
+  left: 0;
+  right: 0;
+  bottom: 0;
+  background: rgba(0, 0, 0, 0.8);
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  z-index: 1000;
+  backdrop-filter: blur(10px);
+`;
+
+const ModalContent = styled.div`
+  background: linear-gradient(
+    135deg,
+    rgba(30, 30, 50, 0.95),
+    rgba(20, 20, 40, 0.95)
+  );
+  border: 2px solid rgba(102, 126, 234, 0.5);
+  border-radius: 20px;
+  padding: 3rem 2rem;
+  max-width: 500px;
+  width: 90%;
+  text-align: center;
+  box-shadow: 0 20px 40px rgba(0, 0, 0, 0.5);
+  backdrop-filter: blur(20px);
+`;
+
+const ModalTitle = styled.h2`
+  font-size: 2.5rem;
+  margin-bottom: 1rem;
+  background: linear-gradient(135deg, #667eea, #764ba2);
+  background-clip: text;
+  -webkit-background-clip: text;
+  -webkit-text-fill-color: transparent;
+`;
+
+const ModalStats = styled.div`
+  margin: 2rem 0;
+
+  .stat-row {
+    display: flex;
+    justify-content: space-between;
+    margin: 0.5rem 0;
+    font-size: 1.1rem;
+  }
+
+  .final-score {
+    font-size: 1.5rem;
+    font-weight: bold;
+    margin: 1rem 0;
+    color: #4ecdc4;
+  }
+`;
+
+const ModalButtons = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 1rem;
+  justify-content: center;
+  margin-top: 2rem;
+`;
+
+const ModalButton = styled.button<{ $primary?: boolean }>`
+  background: ${(props) =>
+    props.$primary
+      ? "linear-gradient(135deg, #667eea, #764ba2)"
+      : "rgba(255, 255, 255, 0.1)"};
+  border: 2px solid
+    ${(props) => (props.$primary ? "transparent" : "rgba(255, 255, 255, 0.3)")};
+  color: white;
+  padding: 1rem 2rem;
+  border-radius: 12px;
+  cursor: pointer;
+  font-weight: 600;
+  font-size: 1rem;
+  transition: all 0.3s ease;
+
+  &:hover {
+    transform: translateY(-2px);
+    box-shadow: 0 10px 20px rgba(0, 0, 0, 0.3);
+    background: ${(props) =>
+      props.$primary
+        ? "linear-gradient(135deg, #5a67d8, #6b46c1)"
+        : "rgba(255, 255, 255, 0.2)"};
+  }
+`;
+
+const DifficultyOptions = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 0.5rem;
+  justify-content: center;
+  margin-top: 1.5rem;
+`;
+
+const DifficultyOption = styled.button<{ $active: boolean }>`
+  padding: 0.5rem 1rem;
+  border-radius: 8px;
+  border: 1px solid rgba(102, 126, 234, 0.6);
+  background: ${({ $active }) =>
+    $active ? "rgba(102, 126, 234, 0.6)" : "transparent"};
+  color: white;
+  cursor: pointer;
+`;
+
+interface GameResultsProps {
+  game: GameConfig;
+  result: GameResult;
+  difficulty: string;
+  onRetry: () => void;
+  onChangeDifficulty: (difficulty: string) => void;
+  onExit: () => void;
+}
+
+const TITLES: Record<GameResult["winner"], string> = {
+  player: "🎉 Victory!",
+  ai: "🤖 AI Wins!",
+  tie: "🤝 Draw!",
+  none: "🏁 Game Over",
+};
+
+// Versus and spectator runs name their sides instead of "you" and "the AI"
+const describeWinner = (result: GameResult) =>
+  result.sides && (result.winner === "player" || result.winner === "ai")
+    ? `🏆 ${result.sides[result.winner === "player" ? 0 : 1]} Wins!`
+    : TITLES[result.winner];
+
+const describeScore = (result: GameResult) =>
+  result.finalScore
+    ? `${result.finalScore[0]} - ${result.finalScore[1]}`
+    : `${result.score ?? 0}`;
+
+// The one end-of-run screen every workshop game shares
+export const GameResults: React.FC<GameResultsProps> = ({
+  game,
+  result,
+  difficulty,
+  onRetry,
+  onChangeDifficulty,
+  onExit,
+}) => {
+  const [pickingDifficulty, setPickingDifficulty] = useState(false);
+  const [shareStatus, setShareStatus] = useState<string | null>(null);
+
+  const share = async () => {
+    const text = `${describeWinner(result)} ${describeScore(result)} in ${
+      game.icon
+    } ${game.name} at the AI Game Workshop`;
+    try {
+      if (navigator.share) {
+        await navigator.share({ text, url: window.location.href });
+        return;
+      }
+      await navigator.clipboard.writeText(`${text} ${window.location.href}`);
+      setShareStatus("📋 Copied!");
+    } catch {
+      setShareStatus("Couldn't share this one");
+    }
+  };
+
+  return (
+    <GameOverModal role="dialog" aria-label="Game results">
+      <ModalContent>
+        <ModalTitle>{describeWinner(result)}</ModalTitle>
+
+        <ModalStats>
+          <div className="final-score">
+            {result.finalScore ? "Final Score" : "Score"}:{" "}
+            {describeScore(result)}
+          </div>
+
+          {result.stats?.map((stat) => (
+            <div className="stat-row" key={stat.label}>
+              <span>{stat.label}:</span>
+              <span>{stat.value}</span>
+            </div>
+          ))}
+
+          <div className="stat-row">
+            <span>Game:</span>
+            <span>{game.name}</span>
+          </div>
+        </ModalStats>
+
+        <ModalButtons>
+          <ModalButton $primary onClick={onRetry}>
+            🔄 Play Again
+          </ModalButton>
+          {game.difficulties && (
+            <ModalButton onClick={() => setPickingDifficulty((open) => !open)}>
+              🎚️ Difficulty
+            </ModalButton>
+          )}
+          <ModalButton onClick={share}>{shareStatus ?? "📤 Share"}</ModalButton>
+          <ModalButton onClick={onExit}>🏠 Dashboard</ModalButton>
+        </ModalButtons>
+
+        {pickingDifficulty && game.difficulties && (
+          <DifficultyOptions>
+            {game.difficulties.map((option) => (
+              <DifficultyOption
+                key={option.id}
+                $active={option.id === difficulty}
+                onClick={() => onChangeDifficulty(option.id)}
+              >
+                {option.label}
+              </DifficultyOption>
+            ))}
+          </DifficultyOptions>
+        )}
+      </ModalContent>
+    </GameOverModal>
+  );
+};
+
+export default GameResults;
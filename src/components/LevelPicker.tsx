@@ -0,0 +1,137 @@
+import React from "react";
+import styled from "styled-components";
+import type { SnakeLevel } from "../types/gameTypes";
+
+/* 🧱 Styled Components */
+const Panel = styled.section`
+  position: relative;
+  z-index: 1;
+  max-width: 900px;
+  margin: 0 auto 3rem;
+  padding: 1.5rem;
+  background: rgba(0, 0, 0, 0.6);
+  border: 1px solid rgba(102, 126, 234, 0.4);
+  border-radius: 16px;
+  backdrop-filter: blur(10px);
+
+  h3 {
+    color: #4ecdc4;
+    margin-bottom: 1rem;
+  }
+`;
+
+const Row = styled.div<{ $active?: boolean }>`
+  display: flex;
+  align-items: center;
+  gap: 0.5rem;
+  flex-wrap: wrap;
+  padding: 0.5rem;
+  border-radius: 8px;
+  border-bottom: 1px solid rgba(255, 255, 255, 0.08);
+  background: ${({ $active }) =>
+    $active ? "rgba(78, 205, 196, 0.15)" : "transparent"};
+
+  strong {
+    flex: 1;
+  }
+
+  small {
+    opacity: 0.6;
+  }
+`;
+
+const SmallButton = styled.button`
+  padding: 0.25rem 0.7rem;
+  border-radius: 6px;
+  border: 1px solid rgba(255, 255, 255, 0.3);
+  background: transparent;
+  color: white;
+  cursor: pointer;
+
+  &:disabled {
+    opacity: 0.4;
+    cursor: default;
+  }
+`;
+
+const ImportLabel = styled.label`
+  padding: 0.25rem 0.7rem;
+  border-radius: 6px;
+  border: 1px dashed rgba(255, 255, 255, 0.4);
+  cursor: pointer;
+
+  input {
+    display: none;
+  }
+`;
+
+const Hint = styled.p`
+  margin-top: 1rem;
+  font-size: 0.9rem;
+  opacity: 0.7;
+`;
+
+interface LevelPickerProps {
+  levels: SnakeLevel[]; // Presets first, then loaded files
+  activeLevel: string; // Name of the arena runs start on
+  error?: string | null;
+  onUse: (name: string) => void;
+  onImport: (event: React.ChangeEvent<HTMLInputElement>) => void;
+}
+
+// What a level has in it, in a few words
+const describe = (level: SnakeLevel) =>
+  [
+    `${level.cols}×${level.rows}`,
+    level.wrap && "wraparound",
+    level.walls?.length && `${level.walls.length} walls`,
+    level.portals?.length && `${level.portals.length} portals`,
+    `${level.food?.count ?? 1} food`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+// Snake arenas: the presets, plus any level files loaded this visit
+export const LevelPicker: React.FC<LevelPickerProps> = ({
+  levels,
+  activeLevel,
+  error,
+  onUse,
+  onImport,
+}) => (
+  <Panel>
+    <h3>🗺️ Snake Arenas</h3>
+
+    <Row>
+      <strong>Your own level</strong>
+      <ImportLabel>
+        📥 Load level JSON
+        <input
+          type="file"
+          accept="application/json,.json"
+          onChange={onImport}
+        />
+      </ImportLabel>
+    </Row>
+
+    {levels.map((level) => (
+      <Row key={level.name} $active={level.name === activeLevel}>
+        <strong>{level.name}</strong>
+        <small>{describe(level)}</small>
+        <SmallButton
+          onClick={() => onUse(level.name)}
+          disabled={level.name === activeLevel}
+        >
+          {level.name === activeLevel ? "✓ In use" : "Use"}
+        </SmallButton>
+      </Row>
+    ))}
+
+    <Hint>
+      {error ??
+        "AI Snake Evolution starts on the arena in use. The README describes the level file format."}
+    </Hint>
+  </Panel>
+);
+
+export default LevelPicker;
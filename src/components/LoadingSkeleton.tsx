@@ -0,0 +1,71 @@
+import styled, { keyframes } from "styled-components";
+
+/* 💅 Animations */
+const shimmer = keyframes`
+  0% {
+    background-position: -400px 0;
+  }
+  100% {
+    background-position: 400px 0;
+  }
+`;
+
+/* 🧱 Styled Components */
+const SkeletonWrapper = styled.div<{ $overlay?: boolean }>`
+  display: flex;
+  flex-direction: column;
+  align-items: center;
+  gap: 1rem;
+  padding: 2rem;
+  ${({ $overlay }) =>
+    $overlay
+      ? `
+    position: absolute;
+    top: 50%;
+    left: 50%;
+    transform: translate(-50%, -50%);
+    width: min(480px, 90vw);
+    z-index: 5;
+  `
+      : `
+    width: 100%;
+    min-height: 320px;
+  `}
+`;
+
+const SkeletonBar = styled.div<{ $width: string; $height?: string }>`
+  width: ${({ $width }) => $width};
+  height: ${({ $height }) => $height ?? "1rem"};
+  border-radius: 8px;
+  background: linear-gradient(90deg, #1a1b20 0%, #2a2b30 50%, #1a1b20 100%);
+  background-size: 800px 100%;
+  animation: ${shimmer} 1.4s linear infinite;
+`;
+
+const SkeletonLabel = styled.p`
+  color: #ff7a18;
+  font-size: 0.9rem;
+  font-style: italic;
+`;
+
+interface LoadingSkeletonProps {
+  label: string;
+  overlay?: boolean; // Float over a full-screen canvas instead of filling a panel
+}
+
+// Placeholder shown while a lazily loaded feature, experiment or game downloads
+const LoadingSkeleton: React.FC<LoadingSkeletonProps> = ({
+  label,
+  overlay,
+}) => {
+  return (
+    <SkeletonWrapper $overlay={overlay} role="status" aria-live="polite">
+      <SkeletonBar $width="60%" $height="2rem" />
+      <SkeletonBar $width="90%" $height={overlay ? "6rem" : "12rem"} />
+      <SkeletonBar $width="75%" />
+      <SkeletonLabel>🚧 Pouring the concrete for {label}...</SkeletonLabel>
+    </SkeletonWrapper>
+  );
+};
+
+export default LoadingSkeleton;
@@ -1,86 +1,56 @@
-import React, { useState } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import styled from "styled-components";
 import { motion, AnimatePresence } from "framer-motion";
-import ReservoirDreamscape from "./ReservoirDreamscape";
-import AIAssistant from "./AIAssistant";
-import PoesCorner from "./PoesCorner";
-import AnimationPlayground from "./AnimationPlayground";
-
-// Types for features
-interface Feature {
-  id: string;
-  title: string;
-  description: string;
-  branch: string;
-  icon: string;
-  status: "active" | "development" | "concept" | "implemented";
-  component?: React.FC<Record<string, unknown>>; // Components can accept any props including onBack
-}
+import { useRouter } from "next/router";
+import { resolveFeature } from "../config/featureComponents";
+import FeatureErrorBoundary from "./FeatureErrorBoundary";
+import type {
+  Feature,
+  FeatureManifestEntry,
+  FeatureStatus,
+} from "../types/featureTypes";
 
 interface NewFeatureProps {
   onBack?: () => void;
 }
 
-// Sample features data (this could eventually come from a config or API)
-const featuresData: Feature[] = [
-  {
-    id: "animation-playground",
-    title: "Animation Playground",
-    description:
-      "🎨 Interactive visual effects laboratory with draggable orb and shader-like filters! Drag to discover fire, ice, liquid, electric, and cosmic effects.",
-    branch: "animation-playground",
-    icon: "🎮",
-    status: "active",
-    component: AnimationPlayground,
-  },
-  {
-    id: "reservoir-dreamscape",
-    title: "Reservoir Dreamscape",
-    description:
-      "✅ Fully implemented petroleum engineering visualization tool!",
-    branch: "reservoir-dreamscape",
-    icon: "🌊",
-    status: "implemented",
-    component: ReservoirDreamscape,
-  },
-  {
-    id: "job-board",
-    title: "Job Board",
-    description: "A revolutionary job posting and application system.",
-    branch: "job-board",
-    icon: "💼",
-    status: "development",
-  },
-  {
-    id: "ai-assistant",
-    title: "AI Assistant",
-    description:
-      "🧪 Mad Science Lab for weird AI experiments and creative chaos!",
-    branch: "ai-assistant",
-    icon: "🤖",
-    status: "development",
-    component: AIAssistant,
-  },
-  {
-    id: "poe-gothic-ravens",
-    title: "Poe's Corner",
-    description:
-      "🐦‍⬛ Obsession-level gothic realm where ravens reign supreme and darkness dwells in every shadow. Nevermore shall beauty be mundane.",
-    branch: "poe-gothic-ravens",
-    icon: "🐦‍⬛",
-    status: "implemented",
-    component: PoesCorner,
-  },
-  {
-    id: "data-viz",
-    title: "Data Visualization",
-    description: "Interactive charts and analytics dashboard.",
-    branch: "data-viz",
-    icon: "📊",
-    status: "concept",
-  },
+const FEATURE_STATUSES: FeatureStatus[] = [
+  "active",
+  "development",
+  "concept",
+  "implemented",
 ];
 
+const SEARCH_DEBOUNCE_MS = 300; // Typing pause before the search lands in the URL
+
+// Dashboard filters live in the URL (?q=&status=&group=branch) so views can be shared
+interface DashboardFilters {
+  search: string;
+  status: FeatureStatus | null;
+  groupByBranch: boolean;
+}
+
+function readFilters(
+  query: Record<string, string | string[] | undefined>
+): DashboardFilters {
+  const status = FEATURE_STATUSES.find((s) => s === query.status) ?? null;
+  return {
+    search: typeof query.q === "string" ? query.q : "",
+    status,
+    groupByBranch: query.group === "branch",
+  };
+}
+
+function matchesFilters(feature: Feature, filters: DashboardFilters) {
+  if (filters.status && feature.status !== filters.status) return false;
+  const needle = filters.search.trim().toLowerCase();
+  return (
+    !needle ||
+    feature.title.toLowerCase().includes(needle) ||
+    feature.description.toLowerCase().includes(needle)
+  );
+}
+
 // Styled Components
 const DashboardWrapper = styled.div`
   width: 100%;
@@ -110,6 +80,74 @@ const DashboardSubtitle = styled.p`
   margin: 0 auto;
 `;
 
+const StatusCounts = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  justify-content: center;
+  gap: 0.5rem;
+  margin-top: 1.5rem;
+`;
+
+const StatusChip = styled.button<{ $status: string; $active: boolean }>`
+  padding: 0.35rem 0.9rem;
+  border-radius: 16px;
+  border: 2px solid
+    ${(props) =>
+      props.$status === "active"
+        ? "#ff7a18"
+        : props.$status === "development"
+        ? "#4CAF50"
+        : props.$status === "implemented"
+        ? "#10B981"
+        : "#666"};
+  background: ${(props) => (props.$active ? "#333" : "transparent")};
+  color: #eaeaea;
+  font-size: 0.85rem;
+  cursor: pointer;
+  text-transform: capitalize;
+  transition: all 0.2s ease;
+
+  strong {
+    margin-left: 0.35rem;
+    color: #ff7a18;
+  }
+`;
+
+const Toolbar = styled.div`
+  display: flex;
+  flex-wrap: wrap;
+  align-items: center;
+  gap: 1rem;
+  margin-bottom: 2rem;
+`;
+
+const SearchInput = styled.input`
+  flex: 1;
+  min-width: 220px;
+  padding: 0.75rem 1rem;
+  border-radius: 8px;
+  border: 1px solid #ff7a18;
+  background: #0f1013;
+  color: #eaeaea;
+  font-size: 1rem;
+`;
+
+const GroupToggle = styled.label`
+  display: flex;
+  align-items: center;
+  gap: 0.5rem;
+  color: #aaa;
+  font-size: 0.9rem;
+  cursor: pointer;
+`;
+
+const BranchHeading = styled.h2`
+  color: #ff7a18;
+  font-family: monospace;
+  font-size: 1.1rem;
+  margin-bottom: 1rem;
+`;
+
 const FeaturesGrid = styled.div`
   display: grid;
   grid-template-columns: repeat(auto-fit, minmax(300px, 1fr));
@@ -220,6 +258,12 @@ const StatusBadge = styled.span<{ $status: string }>`
   text-transform: uppercase;
 `;
 
+const EmptyState = styled.p`
+  text-align: center;
+  color: #888;
+  margin-bottom: 2rem;
+`;
+
 const ActionsSection = styled.div`
   text-align: center;
   padding-top: 2rem;
@@ -252,82 +296,186 @@ const ActionButton = styled.button<{ $variant?: "primary" | "secondary" }>`
   }
 `;
 
-// Main Component
-export const NewFeatureComponent: React.FC<NewFeatureProps> = ({ onBack }) => {
-  const [selectedFeature, setSelectedFeature] = useState<Feature | null>(null);
-  const [isHeaderCollapsed, setIsHeaderCollapsed] = useState(false);
-
-  const handleFeatureClick = (feature: Feature) => {
-    setSelectedFeature(feature);
-    setIsHeaderCollapsed(false); // Reset header state when selecting a feature
-    // Here you could navigate to the specific feature or load its component
-    console.log(`Navigating to feature: ${feature.title} (${feature.branch})`);
-  };
+interface FeatureViewProps {
+  feature: Feature;
+  onBackToDashboard: () => void;
+  onBack?: () => void;
+}
 
-  const handleCreateNewFeature = () => {
-    // This could open a modal or navigate to a feature creation flow
-    console.log("Creating new feature...");
-  };
+// A single feature, rendered on its own route (/features/[id])
+export const FeatureView: React.FC<FeatureViewProps> = ({
+  feature,
+  onBackToDashboard,
+  onBack,
+}) => {
+  const [isHeaderCollapsed, setIsHeaderCollapsed] = useState(false);
 
   const handleHeaderCollapseRequest = (shouldCollapse: boolean) => {
     setIsHeaderCollapsed(shouldCollapse);
   };
 
-  if (selectedFeature) {
-    // If a feature is selected, render its component
-    const FeatureComponent = selectedFeature.component;
-
-    return (
-      <DashboardWrapper>
-        <AnimatePresence>
-          {!isHeaderCollapsed && (
-            <motion.div
-              initial={{ opacity: 1, height: "auto" }}
-              animate={{ opacity: 1, height: "auto" }}
-              exit={{ opacity: 0, height: 0 }}
-              transition={{ duration: 0.4, ease: "easeInOut" }}
-            >
-              <DashboardHeader>
-                <DashboardTitle>
-                  {selectedFeature.icon} {selectedFeature.title}
-                </DashboardTitle>
-                <DashboardSubtitle>
-                  Branch: <code>{selectedFeature.branch}</code> • Status:{" "}
-                  {selectedFeature.status}
-                </DashboardSubtitle>
-              </DashboardHeader>
-            </motion.div>
-          )}
-        </AnimatePresence>
+  const FeatureComponent = feature.component;
+
+  return (
+    <DashboardWrapper>
+      <AnimatePresence>
+        {!isHeaderCollapsed && (
+          <motion.div
+            initial={{ opacity: 1, height: "auto" }}
+            animate={{ opacity: 1, height: "auto" }}
+            exit={{ opacity: 0, height: 0 }}
+            transition={{ duration: 0.4, ease: "easeInOut" }}
+          >
+            <DashboardHeader>
+              <DashboardTitle>
+                {feature.icon} {feature.title}
+              </DashboardTitle>
+              <DashboardSubtitle>
+                Branch: <code>{feature.branch}</code> • Status: {feature.status}
+              </DashboardSubtitle>
+            </DashboardHeader>
+          </motion.div>
+        )}
+      </AnimatePresence>
 
-        {/* Render the actual feature component */}
-        {FeatureComponent ? (
+      {/* Render the actual feature component */}
+      {FeatureComponent ? (
+        <FeatureErrorBoundary label={feature.title}>
           <FeatureComponent
-            onBack={() => setSelectedFeature(null)}
+            onBack={onBackToDashboard}
             onHeaderCollapseRequest={handleHeaderCollapseRequest}
           />
-        ) : (
-          <div style={{ padding: "2rem", textAlign: "center", color: "#888" }}>
-            <p>Component not yet implemented for this feature.</p>
-            <p>Create the component and add it to the feature configuration.</p>
-          </div>
-        )}
-
-        {!isHeaderCollapsed && (
-          <ActionsSection>
-            <ActionButton onClick={() => setSelectedFeature(null)}>
-              ← Back to Dashboard
+        </FeatureErrorBoundary>
+      ) : (
+        <div style={{ padding: "2rem", textAlign: "center", color: "#888" }}>
+          <p>Component not yet implemented for this feature.</p>
+          <p>Create the component and add it to the feature configuration.</p>
+        </div>
+      )}
+
+      {!isHeaderCollapsed && (
+        <ActionsSection>
+          <ActionButton onClick={onBackToDashboard}>
+            ← Back to Dashboard
+          </ActionButton>
+          {onBack && (
+            <ActionButton $variant="secondary" onClick={onBack}>
+              ← Back to Construction
             </ActionButton>
-            {onBack && (
-              <ActionButton $variant="secondary" onClick={onBack}>
-                ← Back to Construction
-              </ActionButton>
-            )}
-          </ActionsSection>
-        )}
-      </DashboardWrapper>
+          )}
+        </ActionsSection>
+      )}
+    </DashboardWrapper>
+  );
+};
+
+// Main Component
+export const NewFeatureComponent: React.FC<NewFeatureProps> = ({ onBack }) => {
+  const router = useRouter();
+  const [features, setFeatures] = useState<Feature[] | null>(null);
+
+  // Load the feature registry (src/config/features.json via /api/features)
+  useEffect(() => {
+    fetch("/api/features")
+      .then((res) => res.json())
+      .then((data: { features: FeatureManifestEntry[] }) =>
+        setFeatures(data.features.map(resolveFeature))
+      )
+      .catch(() => setFeatures([]));
+  }, []);
+
+  const urlFilters = readFilters(router.query);
+
+  // The search box owns its text; the URL catches up once typing pauses.
+  // Driving the input from router.query would rewind it between keystrokes.
+  const [search, setSearch] = useState(urlFilters.search);
+  const searchTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(
+    undefined
+  );
+  const pushedSearchRef = useRef(urlFilters.search);
+  const filters = { ...urlFilters, search };
+
+  // Back/forward can still change ?q= under us
+  useEffect(() => {
+    if (urlFilters.search === pushedSearchRef.current) return;
+    pushedSearchRef.current = urlFilters.search;
+    setSearch(urlFilters.search);
+  }, [urlFilters.search]);
+
+  useEffect(() => () => clearTimeout(searchTimerRef.current), []);
+
+  // Shallow so the cone gate's getServerSideProps doesn't run on every keystroke
+  const updateFilters = (changes: Partial<DashboardFilters>) => {
+    clearTimeout(searchTimerRef.current);
+    const next = { ...filters, ...changes };
+    pushedSearchRef.current = next.search;
+    const query = { ...router.query };
+    delete query.q;
+    delete query.status;
+    delete query.group;
+    if (next.search) query.q = next.search;
+    if (next.status) query.status = next.status;
+    if (next.groupByBranch) query.group = "branch";
+    router.replace({ pathname: router.pathname, query }, undefined, {
+      shallow: true,
+      scroll: false,
+    });
+  };
+
+  const handleSearchChange = (value: string) => {
+    setSearch(value);
+    clearTimeout(searchTimerRef.current);
+    searchTimerRef.current = setTimeout(
+      () => updateFilters({ search: value }),
+      SEARCH_DEBOUNCE_MS
     );
-  }
+  };
+
+  const visibleFeatures =
+    features?.filter((feature) => matchesFilters(feature, filters)) ?? [];
+
+  const statusCounts = FEATURE_STATUSES.map((status) => ({
+    status,
+    count: features?.filter((f) => f.status === status).length ?? 0,
+  }));
+
+  // Branch order follows the registry, so groups don't jump around while filtering
+  const groups = filters.groupByBranch
+    ? Array.from(new Set(visibleFeatures.map((f) => f.branch))).map(
+        (branch) => ({
+          branch,
+          features: visibleFeatures.filter((f) => f.branch === branch),
+        })
+      )
+    : [{ branch: null, features: visibleFeatures }];
+
+  const handleFeatureClick = (feature: Feature) => {
+    // Each feature lives at its own URL so it can be bookmarked and shared
+    router.push(`/features/${feature.id}`);
+  };
+
+  const renderTile = (feature: Feature) => (
+    <FeatureTile
+      key={feature.id}
+      $status={feature.status}
+      onClick={() => handleFeatureClick(feature)}
+    >
+      <FeatureIcon>{feature.icon}</FeatureIcon>
+      <FeatureTitle>{feature.title}</FeatureTitle>
+      <FeatureDescription>{feature.description}</FeatureDescription>
+
+      <FeatureMeta>
+        <BranchTag>git:{feature.branch}</BranchTag>
+        <StatusBadge $status={feature.status}>{feature.status}</StatusBadge>
+      </FeatureMeta>
+    </FeatureTile>
+  );
+
+  const handleCreateNewFeature = () => {
+    // This could open a modal or navigate to a feature creation flow
+    console.log("Creating new feature...");
+  };
+
   return (
     <DashboardWrapper>
       <DashboardHeader>
@@ -336,28 +484,60 @@ export const NewFeatureComponent: React.FC<NewFeatureProps> = ({ onBack }) => {
           Manage and explore your AI features. Each tile represents a different
           branch/feature you can work on. Click to dive into a specific feature!
         </DashboardSubtitle>
+        <StatusCounts>
+          {statusCounts.map(({ status, count }) => (
+            <StatusChip
+              key={status}
+              $status={status}
+              $active={filters.status === status}
+              aria-pressed={filters.status === status}
+              onClick={() =>
+                updateFilters({
+                  status: filters.status === status ? null : status,
+                })
+              }
+            >
+              {status}
+              <strong>{count}</strong>
+            </StatusChip>
+          ))}
+        </StatusCounts>
       </DashboardHeader>
 
-      <FeaturesGrid>
-        {featuresData.map((feature) => (
-          <FeatureTile
-            key={feature.id}
-            $status={feature.status}
-            onClick={() => handleFeatureClick(feature)}
-          >
-            <FeatureIcon>{feature.icon}</FeatureIcon>
-            <FeatureTitle>{feature.title}</FeatureTitle>
-            <FeatureDescription>{feature.description}</FeatureDescription>
-
-            <FeatureMeta>
-              <BranchTag>git:{feature.branch}</BranchTag>
-              <StatusBadge $status={feature.status}>
-                {feature.status}
-              </StatusBadge>
-            </FeatureMeta>
-          </FeatureTile>
-        ))}
-      </FeaturesGrid>
+      <Toolbar>
+        <SearchInput
+          type="search"
+          value={search}
+          onChange={(e) => handleSearchChange(e.target.value)}
+          placeholder="Search features by title or description..."
+          aria-label="Search features"
+        />
+        <GroupToggle>
+          <input
+            type="checkbox"
+            checked={filters.groupByBranch}
+            onChange={(e) => updateFilters({ groupByBranch: e.target.checked })}
+          />
+          Group by branch
+        </GroupToggle>
+      </Toolbar>
+
+      {features === null && (
+        <EmptyState>🚧 Unloading the feature truck...</EmptyState>
+      )}
+      {features?.length === 0 && (
+        <EmptyState>No features in the registry yet.</EmptyState>
+      )}
+      {!!features?.length && visibleFeatures.length === 0 && (
+        <EmptyState>No features match these filters.</EmptyState>
+      )}
+
+      {groups.map(({ branch, features: groupFeatures }) => (
+        <section key={branch ?? "all"}>
+          {branch && <BranchHeading>git:{branch}</BranchHeading>}
+          <FeaturesGrid>{groupFeatures.map(renderTile)}</FeaturesGrid>
+        </section>
+      ))}
 
       <ActionsSection>
         <ActionButton $variant="primary" onClick={handleCreateNewFeature}>
@@ -1,29 +1,70 @@
-import React, { useEffect, useCallback, useRef } from "react";
+import React, { useEffect, useCallback, useMemo, useRef } from "react";
 import {
+  AIBehavior,
+  AIGeneration,
+  AIPersonality,
+  AITraits,
+  DEFAULT_STEP_MS,
   GameEngineProps,
+  GameResult,
   GameState as BaseGameState,
-  GameEvent,
-  ControlState,
+  GameWinner,
+  RenderFrame,
+  SnakeFoodType,
+  TickInput,
 } from "../../types/gameTypes";
+import useGameRuntime from "../../hooks/useGameRuntime";
+import {
+  behaviorFor,
+  chooseSnakeMove,
+  evolveAI,
+  GenerationSummary,
+  generationStats,
+  logPlayerMove,
+  NO_PATTERNS,
+  PERSONALITIES,
+  PlayerPatterns,
+  SnakeBoard,
+  STARTING_GENERATION,
+} from "./snakeAI";
+import {
+  Arena,
+  buildArena,
+  cellKey,
+  FOOD_KINDS,
+  moveOnArena,
+  SNAKE_LEVELS,
+  startingSnakes,
+} from "./snakeLevels";
 
 interface SnakeGameState extends BaseGameState {
   snake: SnakeSegment[];
   direction: { x: number; y: number };
-  food: Food;
+  food: Food[];
   score: number;
   gameOver: boolean;
-  paused: boolean;
   speed: number;
-  aiOpponent: {
-    snake: SnakeSegment[];
-    direction: { x: number; y: number };
-    score: number;
-    behavior: AIBehavior;
-  };
+  moveTimer: number; // ms since the snakes last moved one cell
+  previousSnake: SnakeSegment[]; // Positions before the last move, for interpolation
+  aiSnakes: AISnake[];
+  generation: AIGeneration; // What the AI snakes' traits are built on
+  playerPatterns: PlayerPatterns; // How the player has moved this round
+  summary: GenerationSummary | null; // How the AI evolved, once the round is over
+  place: number | null; // Where the player finished, once the round is over
+  winner: GameWinner | null; // As reported in the end event
   lastPlayerMove: number;
   gameStartTime: number;
 }
 
+interface AISnake {
+  behavior: AIBehavior;
+  snake: SnakeSegment[];
+  previousSnake: SnakeSegment[];
+  direction: { x: number; y: number };
+  score: number;
+  alive: boolean; // Eliminated snakes leave the board but keep their score
+}
+
 interface SnakeSegment {
   x: number;
   y: number;
@@ -32,530 +73,667 @@ interface SnakeSegment {
 interface Food {
   x: number;
   y: number;
-  type: "normal" | "special" | "ai";
+  type: SnakeFoodType;
   value: number;
+  expiresAt: number | null; // Game time it disappears, for short-lived kinds
 }
 
-interface AIBehavior {
-  aggression: number; // 0-1
-  prediction: number; // 0-1
-  adaptation: number; // 0-1
-}
+// Matching colors for the two ends of each portal
+const PORTAL_COLORS = ["#4ecdc4", "#ff9f43", "#a29bfe", "#fd79a8"];
 
-const GRID_SIZE = 20;
 const CANVAS_WIDTH = 800;
 const CANVAS_HEIGHT = 600;
 
+// Ms between moves at the start of a run; eating speeds it up from there
+const START_SPEED: Record<string, number> = {
+  easy: 200,
+  normal: 150,
+  hard: 100,
+};
+
+// The AI snakes each mode puts on the board
+const LINEUPS: Record<string, AIPersonality[]> = {
+  solo: ["hunter"],
+  royale: ["hunter", "coward", "hoarder", "blocker"],
+};
+
+// A duel's lone AI plays its generation's traits as they are; in a battle
+// royale each personality shifts them its own way
+const behaviorIn = (
+  lineup: AIPersonality[],
+  personality: AIPersonality,
+  traits: AITraits
+): AIBehavior =>
+  lineup.length > 1
+    ? behaviorFor(personality, traits)
+    : { personality, traits: { ...traits } };
+
+// 1st, 2nd...; a battle royale has at most five places
+const ordinal = (place: number) =>
+  `${place}${["st", "nd", "rd"][place - 1] ?? "th"}`;
+
+// The game-over headline for a solo round
+const WINNER_TEXT: Record<GameWinner, string> = {
+  player: "Player Wins!",
+  ai: "AI Wins!",
+  tie: "Tie!",
+  none: "Tie!",
+};
+
+const sameCell = (a: SnakeSegment | null | undefined, b: SnakeSegment) =>
+  !!a && a.x === b.x && a.y === b.y;
+
+// The end-of-run report for the workshop's results screen
+const snakeResult = (
+  state: SnakeGameState,
+  winner: GameWinner,
+  now: number
+): GameResult => {
+  const royale = state.aiSnakes.length > 1;
+  return {
+    winner,
+    score: state.score,
+    finalScore: [
+      state.score,
+      Math.max(...state.aiSnakes.map((ai) => ai.score)),
+    ],
+    length: state.snake.length,
+    stats: [
+      { label: "Length", value: state.snake.length },
+      ...(royale
+        ? [
+            {
+              label: "Place",
+              value: `${ordinal(state.place ?? 1)} of ${
+                state.aiSnakes.length + 1
+              }`,
+            },
+            ...state.aiSnakes.map((ai) => ({
+              label: PERSONALITIES[ai.behavior.personality].label,
+              value: `${ai.score}${ai.alive ? "" : " 💀"}`,
+            })),
+          ]
+        : [{ label: "AI Length", value: state.aiSnakes[0].snake.length }]),
+      {
+        label: "Survived",
+        value: `${Math.round((now - state.gameStartTime) / 1000)}s`,
+      },
+      ...(state.summary ? generationStats(state.summary) : []),
+    ],
+  };
+};
+
+// The board as one snake sees it: `index` is an AI snake's, or -1 for the
+// player's
+const toBoard = (
+  state: SnakeGameState,
+  arena: Arena,
+  index: number
+): SnakeBoard => {
+  const snakes = [
+    { body: state.snake, direction: state.direction },
+    ...state.aiSnakes.map((ai) => ({
+      body: ai.snake,
+      direction: ai.direction,
+    })),
+  ];
+  const alive = [true, ...state.aiSnakes.map((ai) => ai.alive)];
+  return {
+    arena,
+    self: snakes[index + 1],
+    rivals: snakes.filter((_, i) => i !== index + 1 && alive[i]),
+    food: state.food,
+  };
+};
+
 const AISnakeGame: React.FC<GameEngineProps> = ({
   canvas,
   gameState,
   setGameState,
   controls,
   onGameEvent,
+  commands,
+  session,
+  difficulty,
+  mode,
+  level,
 }) => {
-  const animationFrameRef = useRef<number | undefined>(undefined);
-  const lastUpdateRef = useRef<number>(0);
+  const pauseWasDownRef = useRef(false);
+  // The AI the next run starts from; it evolves after every live round
+  const generationRef = useRef<AIGeneration>(STARTING_GENERATION);
+  const { random, clock } = session;
+  const arena = useMemo(() => buildArena(level ?? SNAKE_LEVELS[0]), [level]);
+  const lineup = LINEUPS[mode] ?? LINEUPS.solo;
+
+  // Drops expired food and tops the board back up on random free cells
+  const refillFood = useCallback(
+    (food: Food[], snakes: SnakeSegment[][]): Food[] => {
+      const now = clock.now();
+      const kept = food.filter(
+        (item) => item.expiresAt === null || item.expiresAt > now
+      );
+      const taken = new Set(arena.walls);
+      arena.portals.forEach((_, key) => taken.add(key));
+      [...snakes.flat(), ...kept].forEach((cell) =>
+        taken.add(cellKey(cell, arena.cols))
+      );
 
-  // Initialize game state
-  useEffect(() => {
-    if (Object.keys(gameState).length === 0) {
-      const initialState: SnakeGameState = {
-        snake: [
-          { x: 10, y: 10 },
-          { x: 9, y: 10 },
-          { x: 8, y: 10 },
-        ] as SnakeSegment[],
-        direction: { x: 1, y: 0 },
-        food: {
-          x: Math.floor(Math.random() * (CANVAS_WIDTH / GRID_SIZE)),
-          y: Math.floor(Math.random() * (CANVAS_HEIGHT / GRID_SIZE)),
-          type: "normal",
-          value: 10,
-        } as Food,
-        score: 0,
-        gameOver: false,
-        paused: false,
-        speed: 150, // ms between moves
-        aiOpponent: {
-          snake: [
-            { x: 30, y: 15 },
-            { x: 29, y: 15 },
-            { x: 28, y: 15 },
-          ] as SnakeSegment[],
-          direction: { x: -1, y: 0 },
-          score: 0,
-          behavior: {
-            aggression: 0.3,
-            prediction: 0.5,
-            adaptation: 0.2,
-          } as AIBehavior,
-        },
-        lastPlayerMove: Date.now(),
-        gameStartTime: Date.now(),
-      };
+      while (kept.length < arena.foodCount) {
+        const free: number[] = [];
+        for (let key = 0; key < arena.cols * arena.rows; key++) {
+          if (!taken.has(key)) free.push(key);
+        }
+        if (free.length === 0) break;
+
+        const key = free[Math.floor(random.next() * free.length)];
+        const type =
+          arena.foodTypes[Math.floor(random.next() * arena.foodTypes.length)];
+        const { value, lifetime } = FOOD_KINDS[type];
+        kept.push({
+          x: key % arena.cols,
+          y: Math.floor(key / arena.cols),
+          type,
+          value,
+          expiresAt: lifetime ? now + lifetime : null,
+        });
+        taken.add(key);
+      }
+      return kept;
+    },
+    [arena, random, clock]
+  );
 
-      setGameState(initialState);
-      onGameEvent({ type: "start", data: { mode: "ai-snake" } });
-    }
-  }, [gameState, setGameState, onGameEvent]);
-
-  // AI Decision Making
-  const makeAIMove = useCallback((state: SnakeGameState) => {
-    const ai = state.aiOpponent;
-    const aiSnake = ai.snake;
-    const head = aiSnake[0];
-    const food = state.food;
-    const playerSnake = state.snake;
-
-    // Simple AI behavior: move toward food, avoid collisions
-    let bestDirection = ai.direction;
-    let bestScore = -Infinity;
-
-    const possibleDirections = [
-      { x: 0, y: -1 }, // up
-      { x: 1, y: 0 }, // right
-      { x: 0, y: 1 }, // down
-      { x: -1, y: 0 }, // left
-    ];
-
-    possibleDirections.forEach((direction) => {
-      const newHead = {
-        x: head.x + direction.x,
-        y: head.y + direction.y,
-      };
+  // Fresh state for a new run
+  const createInitialState = useCallback((): SnakeGameState => {
+    const [player, ...ais] = startingSnakes(arena, lineup.length + 1);
+    const generation = STARTING_GENERATION;
+
+    onGameEvent({ type: "start", data: { mode: "ai-snake" } });
+
+    return {
+      snake: player.body,
+      previousSnake: player.body,
+      direction: player.direction,
+      food: refillFood([], [player.body, ...ais.map((ai) => ai.body)]),
+      score: 0,
+      gameOver: false,
+      speed: START_SPEED[difficulty] ?? START_SPEED.normal, // ms between moves
+      moveTimer: 0,
+      aiSnakes: ais.map((ai, i) => ({
+        behavior: behaviorIn(lineup, lineup[i], generation.traits),
+        snake: ai.body,
+        previousSnake: ai.body,
+        direction: ai.direction,
+        score: 0,
+        alive: true,
+      })),
+      generation,
+      playerPatterns: NO_PATTERNS,
+      summary: null,
+      place: null,
+      winner: null,
+      lastPlayerMove: clock.now(),
+      gameStartTime: clock.now(),
+    };
+  }, [onGameEvent, clock, difficulty, arena, lineup, refillFood]);
+
+  // Ends the round. The AI evolves from how the player played it, and the
+  // next live run starts from the new generation.
+  const endRound = useCallback(
+    (state: SnakeGameState, winner: GameWinner): SnakeGameState => {
+      const summary = evolveAI(state.generation, state.playerPatterns, winner);
+      if (!session.isReplaying()) generationRef.current = summary.to;
+
+      // The player places behind every AI snake that outlasted it
+      const place =
+        winner === "player"
+          ? 1
+          : state.aiSnakes.filter((ai) => ai.alive).length + 1;
+      const ended = { ...state, gameOver: true, summary, place, winner };
+      onGameEvent({
+        type: "end",
+        data: snakeResult(ended, winner, clock.now()),
+      });
+      return ended;
+    },
+    [onGameEvent, session, clock]
+  );
 
-      // Check bounds
-      if (
-        newHead.x < 0 ||
-        newHead.x >= CANVAS_WIDTH / GRID_SIZE ||
-        newHead.y < 0 ||
-        newHead.y >= CANVAS_HEIGHT / GRID_SIZE
-      ) {
-        return;
+  // Turns held direction actions into a new heading (no reversing into yourself)
+  const steer = useCallback(
+    (state: SnakeGameState, { controls }: TickInput): SnakeGameState => {
+      const { actions } = controls;
+
+      let newDirection = state.direction;
+      if (actions.up) {
+        if (state.direction.y === 0) newDirection = { x: 0, y: -1 };
+      } else if (actions.down) {
+        if (state.direction.y === 0) newDirection = { x: 0, y: 1 };
+      } else if (actions.left) {
+        if (state.direction.x === 0) newDirection = { x: -1, y: 0 };
+      } else if (actions.right) {
+        if (state.direction.x === 0) newDirection = { x: 1, y: 0 };
       }
 
-      // Check self collision
-      if (
-        aiSnake.some(
-          (segment: SnakeSegment) =>
-            segment.x === newHead.x && segment.y === newHead.y
-        )
-      ) {
-        return;
-      }
+      if (newDirection === state.direction) return state;
+      return { ...state, direction: newDirection, lastPlayerMove: clock.now() };
+    },
+    [clock]
+  );
 
-      // Check player collision (competitive mode)
-      if (
-        playerSnake.some(
-          (segment: SnakeSegment) =>
-            segment.x === newHead.x && segment.y === newHead.y
-        )
-      ) {
-        return;
-      }
+  // One fixed simulation step; the snakes move a cell every `speed` ms
+  const stepGame = useCallback(
+    (
+      current: SnakeGameState,
+      stepMs: number,
+      input: TickInput
+    ): SnakeGameState => {
+      if (current.gameOver) return current;
+
+      // An evolved AI from an earlier round takes over
+      let loaded = current;
+      input.commands.forEach((command) => {
+        if (command.type === "LOAD_AI_GENERATION") {
+          loaded = {
+            ...loaded,
+            generation: command.data,
+            aiSnakes: loaded.aiSnakes.map((ai) => ({
+              ...ai,
+              behavior: behaviorIn(
+                lineup,
+                ai.behavior.personality,
+                command.data.traits
+              ),
+            })),
+          };
+        }
+      });
+      const prev = steer(loaded, input);
 
-      // Calculate score for this direction
-      let score = 0;
+      const moveTimer = prev.moveTimer + stepMs;
+      if (moveTimer < prev.speed) return { ...prev, moveTimer };
 
-      // Distance to food (closer is better)
-      const foodDistance =
-        Math.abs(newHead.x - food.x) + Math.abs(newHead.y - food.y);
-      score += (50 - foodDistance) * ai.behavior.aggression;
+      const newState = { ...prev, moveTimer: moveTimer - prev.speed };
+      newState.previousSnake = prev.snake;
 
-      // Avoid walls
-      const wallDistance = Math.min(
-        newHead.x,
-        newHead.y,
-        CANVAS_WIDTH / GRID_SIZE - newHead.x,
-        CANVAS_HEIGHT / GRID_SIZE - newHead.y
+      // Log how the player moves, for the AI to learn from after the round
+      const [playerHead, neck] = prev.snake;
+      const turned = !sameCell(
+        moveOnArena(arena, neck, prev.direction),
+        playerHead
+      );
+      newState.playerPatterns = logPlayerMove(
+        prev.playerPatterns,
+        toBoard(prev, arena, -1),
+        turned
       );
-      score += wallDistance * 10;
 
-      // AI adaptation: learn from player behavior
-      const playerHead = playerSnake[0];
-      const playerDistance =
-        Math.abs(newHead.x - playerHead.x) + Math.abs(newHead.y - playerHead.y);
+      // Every snake picks its move from the same board, then they all move
+      // at once. Null heads hit a wall or the edge.
+      const head = moveOnArena(arena, prev.snake[0], prev.direction);
+      const aiMoves = prev.aiSnakes.map((ai, i) => {
+        if (!ai.alive) return null;
+        const direction = chooseSnakeMove(toBoard(prev, arena, i), ai.behavior);
+        return { direction, head: moveOnArena(arena, ai.snake[0], direction) };
+      });
 
-      if (ai.behavior.adaptation > 0.5) {
-        // Aggressive AI: get closer to player
-        score += (20 - playerDistance) * ai.behavior.aggression;
-      } else {
-        // Defensive AI: maintain distance
-        score += playerDistance * 5;
-      }
+      // A head that runs into any body (tails included) or meets another
+      // head is eliminated
+      const bodies = new Set<number>();
+      [
+        prev.snake,
+        ...prev.aiSnakes.filter((ai) => ai.alive).map((ai) => ai.snake),
+      ]
+        .flat()
+        .forEach((cell) => bodies.add(cellKey(cell, arena.cols)));
+      const heads = [head, ...aiMoves.map((move) => move?.head ?? null)];
+      const crashed = (cell: SnakeSegment | null, index: number) =>
+        !cell ||
+        bodies.has(cellKey(cell, arena.cols)) ||
+        heads.some((other, i) => i !== index && sameCell(other, cell));
+
+      newState.aiSnakes = prev.aiSnakes.map((ai, i) => {
+        const move = aiMoves[i];
+        if (!move) return { ...ai, previousSnake: ai.snake };
+        return {
+          ...ai,
+          previousSnake: ai.snake,
+          direction: move.direction,
+          alive: !crashed(move.head, i + 1),
+        };
+      });
+      const survivors = newState.aiSnakes.filter((ai) => ai.alive).length;
 
-      if (score > bestScore) {
-        bestScore = score;
-        bestDirection = direction;
+      if (!head || crashed(head, 0)) {
+        return endRound(newState, survivors > 0 ? "ai" : "tie");
       }
-    });
-
-    return bestDirection;
-  }, []);
-
-  // Game logic update
-  const updateGame = useCallback(
-    (timestamp: number) => {
-      const snakeGameState = gameState as SnakeGameState;
-
-      // Guard: Don't update until game is initialized
-      if (
-        !snakeGameState.snake ||
-        !snakeGameState.direction ||
-        snakeGameState.gameOver ||
-        snakeGameState.paused
-      )
-        return;
-
-      if (timestamp - lastUpdateRef.current < snakeGameState.speed) {
-        animationFrameRef.current = requestAnimationFrame(updateGame);
-        return;
+      if (survivors === 0) return endRound(newState, "player");
+
+      // Survivors move; a snake that eats grows by keeping its tail
+      const eatenAt = (cell: SnakeSegment) =>
+        newState.food.find((item) => sameCell(item, cell));
+      const eaten: Food[] = [];
+
+      newState.snake = [head, ...prev.snake];
+      const meal = eatenAt(head);
+      if (meal) {
+        eaten.push(meal);
+        newState.score += meal.value;
+        onGameEvent({
+          type: "score",
+          data: { score: newState.score, points: meal.value },
+        });
+
+        // Increase speed slightly
+        newState.speed = Math.max(50, newState.speed - 2);
+      } else {
+        newState.snake.pop();
       }
 
-      lastUpdateRef.current = timestamp;
-
-      setGameState((prevState) => {
-        const prev = prevState as SnakeGameState;
-        const newState = { ...prev };
-
-        // Move player snake
-        const head = { ...newState.snake[0] };
-        head.x += newState.direction.x;
-        head.y += newState.direction.y;
-
-        // Check wall collision
-        if (
-          head.x < 0 ||
-          head.x >= CANVAS_WIDTH / GRID_SIZE ||
-          head.y < 0 ||
-          head.y >= CANVAS_HEIGHT / GRID_SIZE
-        ) {
-          newState.gameOver = true;
-          onGameEvent({
-            type: "end",
-            data: { score: newState.score, winner: "ai" },
-          });
-          return newState;
-        }
+      newState.aiSnakes = newState.aiSnakes.map((ai, i) => {
+        const aiHead = aiMoves[i]?.head;
+        if (!ai.alive || !aiHead) return ai;
+        const aiMeal = eatenAt(aiHead);
+        if (aiMeal) eaten.push(aiMeal);
+        return {
+          ...ai,
+          snake: [aiHead, ...(aiMeal ? ai.snake : ai.snake.slice(0, -1))],
+          score: ai.score + (aiMeal?.value ?? 0),
+        };
+      });
 
-        // Check self collision
-        if (
-          newState.snake.some(
-            (segment: SnakeSegment) =>
-              segment.x === head.x && segment.y === head.y
-          )
-        ) {
-          newState.gameOver = true;
-          onGameEvent({
-            type: "end",
-            data: { score: newState.score, winner: "ai" },
-          });
-          return newState;
-        }
+      // Replace what was eaten or went off
+      newState.food = refillFood(
+        newState.food.filter((item) => !eaten.includes(item)),
+        [
+          newState.snake,
+          ...newState.aiSnakes.filter((ai) => ai.alive).map((ai) => ai.snake),
+        ]
+      );
 
-        // Move AI snake
-        const aiDirection = makeAIMove(newState);
-        newState.aiOpponent.direction = aiDirection;
-
-        const aiHead = { ...newState.aiOpponent.snake[0] };
-        aiHead.x += aiDirection.x;
-        aiHead.y += aiDirection.y;
-
-        // Check AI wall collision
-        if (
-          aiHead.x < 0 ||
-          aiHead.x >= CANVAS_WIDTH / GRID_SIZE ||
-          aiHead.y < 0 ||
-          aiHead.y >= CANVAS_HEIGHT / GRID_SIZE
-        ) {
-          newState.gameOver = true;
-          onGameEvent({
-            type: "end",
-            data: { score: newState.score, winner: "player" },
-          });
-          return newState;
-        }
+      return newState;
+    },
+    [onGameEvent, endRound, steer, arena, lineup, refillFood]
+  );
 
-        // Check AI self collision
-        if (
-          newState.aiOpponent.snake.some(
-            (segment: SnakeSegment) =>
-              segment.x === aiHead.x && segment.y === aiHead.y
-          )
-        ) {
-          newState.gameOver = true;
-          onGameEvent({
-            type: "end",
-            data: { score: newState.score, winner: "player" },
-          });
-          return newState;
-        }
+  // Render game (every animation frame, interpolating between moves)
+  const renderGame = useCallback(
+    (snakeGameState: SnakeGameState, { alpha, paused }: RenderFrame) => {
+      if (!canvas.current) return;
 
-        // Check collision between snakes
-        if (
-          newState.snake.some(
-            (segment: SnakeSegment) =>
-              segment.x === aiHead.x && segment.y === aiHead.y
-          ) ||
-          newState.aiOpponent.snake.some(
-            (segment: SnakeSegment) =>
-              segment.x === head.x && segment.y === head.y
-          )
-        ) {
-          newState.gameOver = true;
-          onGameEvent({
-            type: "end",
-            data: { score: newState.score, winner: "tie" },
-          });
-          return newState;
-        }
+      const ctx = canvas.current.getContext("2d");
+      if (!ctx) return;
 
-        // Update snakes
-        newState.snake = [head, ...newState.snake];
-        newState.aiOpponent.snake = [aiHead, ...newState.aiOpponent.snake];
-
-        // Check food collision for player
-        if (head.x === newState.food.x && head.y === newState.food.y) {
-          newState.score += newState.food.value;
-          onGameEvent({
-            type: "score",
-            data: { score: newState.score, points: newState.food.value },
-          });
-
-          // Generate new food
-          newState.food = {
-            x: Math.floor(Math.random() * (CANVAS_WIDTH / GRID_SIZE)),
-            y: Math.floor(Math.random() * (CANVAS_HEIGHT / GRID_SIZE)),
-            type: Math.random() > 0.8 ? "special" : "normal",
-            value: Math.random() > 0.8 ? 20 : 10,
-          };
+      // Clear canvas
+      ctx.fillStyle = "#000";
+      ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
 
-          // Increase speed slightly
-          newState.speed = Math.max(50, newState.speed - 2);
-        } else {
-          newState.snake.pop();
-        }
+      // The board fills as much of the canvas as fits, centered
+      const cell = Math.floor(
+        Math.min(CANVAS_WIDTH / arena.cols, CANVAS_HEIGHT / arena.rows)
+      );
+      const left = (CANVAS_WIDTH - cell * arena.cols) / 2;
+      const top = (CANVAS_HEIGHT - cell * arena.rows) / 2;
+      const boardWidth = cell * arena.cols;
+      const boardHeight = cell * arena.rows;
+
+      // Draw grid
+      ctx.strokeStyle = "#1a1a1a";
+      ctx.lineWidth = 1;
+      for (let x = 0; x <= arena.cols; x++) {
+        ctx.beginPath();
+        ctx.moveTo(left + x * cell, top);
+        ctx.lineTo(left + x * cell, top + boardHeight);
+        ctx.stroke();
+      }
+      for (let y = 0; y <= arena.rows; y++) {
+        ctx.beginPath();
+        ctx.moveTo(left, top + y * cell);
+        ctx.lineTo(left + boardWidth, top + y * cell);
+        ctx.stroke();
+      }
 
-        // Check food collision for AI
-        if (aiHead.x === newState.food.x && aiHead.y === newState.food.y) {
-          newState.aiOpponent.score += newState.food.value;
-
-          // AI adapts based on performance
-          const timePlaying = (Date.now() - newState.gameStartTime) / 1000;
-          if (timePlaying > 30) {
-            // After 30 seconds, AI starts adapting
-            newState.aiOpponent.behavior.aggression = Math.min(
-              1,
-              newState.aiOpponent.behavior.aggression + 0.05
-            );
-            newState.aiOpponent.behavior.adaptation = Math.min(
-              1,
-              newState.aiOpponent.behavior.adaptation + 0.03
-            );
-          }
-
-          // Generate new food
-          newState.food = {
-            x: Math.floor(Math.random() * (CANVAS_WIDTH / GRID_SIZE)),
-            y: Math.floor(Math.random() * (CANVAS_HEIGHT / GRID_SIZE)),
-            type: Math.random() > 0.8 ? "special" : "normal",
-            value: Math.random() > 0.8 ? 20 : 10,
-          };
-        } else {
-          newState.aiOpponent.snake.pop();
-        }
+      // Solid edges kill; dashed ones lead round to the other side
+      ctx.strokeStyle = arena.wrap ? "#4ecdc4" : "#666";
+      ctx.lineWidth = 2;
+      if (arena.wrap) ctx.setLineDash([8, 8]);
+      ctx.strokeRect(left, top, boardWidth, boardHeight);
+      ctx.setLineDash([]);
+
+      // Draw walls
+      ctx.fillStyle = "#555";
+      arena.walls.forEach((key) =>
+        ctx.fillRect(
+          left + (key % arena.cols) * cell,
+          top + Math.floor(key / arena.cols) * cell,
+          cell,
+          cell
+        )
+      );
 
-        return newState;
+      // Draw portals, both ends of a pair in the same color
+      const portalColors = new Map<number, string>();
+      arena.portals.forEach((exit, key) => {
+        const color =
+          portalColors.get(cellKey(exit, arena.cols)) ??
+          PORTAL_COLORS[(portalColors.size / 2) % PORTAL_COLORS.length];
+        portalColors.set(key, color);
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        ctx.arc(
+          left + ((key % arena.cols) + 0.5) * cell,
+          top + (Math.floor(key / arena.cols) + 0.5) * cell,
+          cell / 2 - 1,
+          0,
+          Math.PI * 2
+        );
+        ctx.stroke();
       });
 
-      animationFrameRef.current = requestAnimationFrame(updateGame);
-    },
-    [gameState, setGameState, onGameEvent, makeAIMove]
-  );
+      // Slide each segment from where it was toward where it is now
+      const progress = snakeGameState.gameOver
+        ? 1
+        : Math.min(
+            1,
+            (snakeGameState.moveTimer + alpha * DEFAULT_STEP_MS) /
+              snakeGameState.speed
+          );
+      const drawSnake = (
+        snake: SnakeSegment[],
+        previousSnake: SnakeSegment[],
+        headColor: string,
+        bodyColor: string
+      ) => {
+        snake.forEach((segment, index) => {
+          // Across a wrapped edge or a portal it jumps rather than slides
+          const previous = previousSnake[index] ?? segment;
+          const from =
+            Math.abs(segment.x - previous.x) +
+              Math.abs(segment.y - previous.y) >
+            1
+              ? segment
+              : previous;
+          ctx.fillStyle = index === 0 ? headColor : bodyColor;
+          ctx.fillRect(
+            left + (from.x + (segment.x - from.x) * progress) * cell + 1,
+            top + (from.y + (segment.y - from.y) * progress) * cell + 1,
+            cell - 2,
+            cell - 2
+          );
+        });
+      };
 
-  // Handle input
-  useEffect(() => {
-    if (!controls.keyboard) return;
-
-    const snakeGameState = gameState as SnakeGameState;
-
-    // Guard: Don't handle input until game is initialized
-    if (!snakeGameState.snake || !snakeGameState.direction) return;
-
-    const handleKeyPress = () => {
-      if (snakeGameState.gameOver) return;
-
-      let newDirection = { ...snakeGameState.direction };
-
-      if (controls.keyboard["ArrowUp"] || controls.keyboard["w"]) {
-        if (snakeGameState.direction.y === 0) newDirection = { x: 0, y: -1 };
-      } else if (controls.keyboard["ArrowDown"] || controls.keyboard["s"]) {
-        if (snakeGameState.direction.y === 0) newDirection = { x: 0, y: 1 };
-      } else if (controls.keyboard["ArrowLeft"] || controls.keyboard["a"]) {
-        if (snakeGameState.direction.x === 0) newDirection = { x: -1, y: 0 };
-      } else if (controls.keyboard["ArrowRight"] || controls.keyboard["d"]) {
-        if (snakeGameState.direction.x === 0) newDirection = { x: 1, y: 0 };
-      } else if (controls.keyboard[" "]) {
-        setGameState((prev) => ({
-          ...prev,
-          paused: !(prev as SnakeGameState).paused,
-        }));
-        return;
+      // Draw player snake
+      drawSnake(
+        snakeGameState.snake,
+        snakeGameState.previousSnake,
+        "#4ecdc4",
+        "#44a08d"
+      );
+
+      // Draw the AI snakes still in the round, in their personality's colors
+      snakeGameState.aiSnakes.forEach((ai) => {
+        if (!ai.alive) return;
+        const [headColor, bodyColor] =
+          PERSONALITIES[ai.behavior.personality].colors;
+        drawSnake(ai.snake, ai.previousSnake, headColor, bodyColor);
+      });
+
+      // Draw food; short-lived kinds fade as they run out
+      snakeGameState.food.forEach((item) => {
+        const { color, lifetime } = FOOD_KINDS[item.type];
+        ctx.globalAlpha =
+          item.expiresAt !== null && lifetime
+            ? Math.max(0.3, (item.expiresAt - clock.now()) / lifetime)
+            : 1;
+        ctx.fillStyle = color;
+        ctx.fillRect(
+          left + item.x * cell + 2,
+          top + item.y * cell + 2,
+          cell - 4,
+          cell - 4
+        );
+      });
+      ctx.globalAlpha = 1;
+
+      // Draw UI
+      const { aiSnakes } = snakeGameState;
+      const royale = aiSnakes.length > 1;
+      ctx.fillStyle = "#fff";
+      ctx.font = "24px Arial";
+      ctx.fillText(`Player: ${snakeGameState.score}`, 20, 30);
+      if (royale) {
+        // Scoreboard: every AI snake in its colors, crossed out once eliminated
+        ctx.font = "16px Arial";
+        aiSnakes.forEach((ai, i) => {
+          const { label, colors } = PERSONALITIES[ai.behavior.personality];
+          ctx.fillStyle = ai.alive ? colors[0] : "#666";
+          ctx.fillText(
+            `${label}: ${ai.score}${ai.alive ? "" : " 💀"}`,
+            20,
+            54 + i * 20
+          );
+        });
+      } else {
+        ctx.fillText(`AI: ${aiSnakes[0].score}`, 20, 60);
       }
+      ctx.fillStyle = "#fff";
+      ctx.font = "14px Arial";
+      ctx.fillText(
+        level?.name ?? SNAKE_LEVELS[0].name,
+        20,
+        royale ? 54 + aiSnakes.length * 20 : 84
+      );
+
+      // AI behavior display: the generation's traits the AI snakes build on
+      const { generation, traits } = snakeGameState.generation;
+      ctx.font = "16px Arial";
+      ctx.fillStyle = "#ff6b6b";
+      [
+        `AI Generation: ${generation}`,
+        `AI Aggression: ${Math.round(traits.aggression * 100)}%`,
+        `AI Prediction: ${Math.round(traits.prediction * 100)}%`,
+        `AI Adaptation: ${Math.round(traits.adaptation * 100)}%`,
+      ].forEach((line, i) =>
+        ctx.fillText(line, CANVAS_WIDTH - 200, 30 + i * 20)
+      );
 
-      if (
-        newDirection.x !== snakeGameState.direction.x ||
-        newDirection.y !== snakeGameState.direction.y
-      ) {
-        setGameState((prev) => ({
-          ...prev,
-          direction: newDirection,
-          lastPlayerMove: Date.now(),
-        }));
+      if (paused) {
+        ctx.fillStyle = "rgba(0, 0, 0, 0.8)";
+        ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+        ctx.fillStyle = "#fff";
+        ctx.font = "48px Arial";
+        ctx.textAlign = "center";
+        ctx.fillText("PAUSED", CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2);
+        ctx.textAlign = "left";
       }
-    };
 
-    handleKeyPress();
-  }, [controls.keyboard, gameState, setGameState]);
+      if (snakeGameState.gameOver) {
+        ctx.fillStyle = "rgba(0, 0, 0, 0.8)";
+        ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+        ctx.fillStyle = "#fff";
+        ctx.font = "48px Arial";
+        ctx.textAlign = "center";
+        ctx.fillText("GAME OVER", CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 - 50);
+
+        // Who crashed decides the round, not the score
+        let winner = WINNER_TEXT[snakeGameState.winner ?? "tie"];
+        if (royale) {
+          const place = snakeGameState.place ?? 1;
+          winner =
+            place === 1
+              ? "👑 Last Snake Standing!"
+              : `Out in ${ordinal(place)} of ${aiSnakes.length + 1}`;
+        }
 
-  // Render game
-  useEffect(() => {
-    const snakeGameState = gameState as SnakeGameState;
-
-    // Guard: Don't render until game is initialized
-    if (!canvas.current || !snakeGameState.snake || !snakeGameState.food)
-      return;
-
-    const ctx = canvas.current.getContext("2d");
-    if (!ctx) return;
-
-    // Clear canvas
-    ctx.fillStyle = "#000";
-    ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
-
-    // Draw grid
-    ctx.strokeStyle = "#1a1a1a";
-    ctx.lineWidth = 1;
-    for (let x = 0; x <= CANVAS_WIDTH; x += GRID_SIZE) {
-      ctx.beginPath();
-      ctx.moveTo(x, 0);
-      ctx.lineTo(x, CANVAS_HEIGHT);
-      ctx.stroke();
-    }
-    for (let y = 0; y <= CANVAS_HEIGHT; y += GRID_SIZE) {
-      ctx.beginPath();
-      ctx.moveTo(0, y);
-      ctx.lineTo(CANVAS_WIDTH, y);
-      ctx.stroke();
-    }
-
-    // Draw player snake
-    snakeGameState.snake.forEach((segment: SnakeSegment, index: number) => {
-      ctx.fillStyle = index === 0 ? "#4ecdc4" : "#44a08d";
-      ctx.fillRect(
-        segment.x * GRID_SIZE + 1,
-        segment.y * GRID_SIZE + 1,
-        GRID_SIZE - 2,
-        GRID_SIZE - 2
-      );
-    });
+        ctx.font = "32px Arial";
+        ctx.fillText(winner, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 20);
+
+        // What the AI learned from this round
+        const { summary } = snakeGameState;
+        if (summary) {
+          ctx.font = "18px Arial";
+          ctx.fillStyle = "#ff6b6b";
+          ctx.fillText(
+            `🧬 AI Generation ${summary.from.generation} → ${summary.to.generation}`,
+            CANVAS_WIDTH / 2,
+            CANVAS_HEIGHT / 2 + 70
+          );
+          ctx.font = "14px Arial";
+          ctx.fillStyle = "#ccc";
+          summary.notes.forEach((note, i) =>
+            ctx.fillText(
+              note,
+              CANVAS_WIDTH / 2,
+              CANVAS_HEIGHT / 2 + 95 + i * 20
+            )
+          );
+        }
+        ctx.textAlign = "left";
+      }
+    },
+    [canvas, arena, level, clock]
+  );
 
-    // Draw AI snake
-    snakeGameState.aiOpponent.snake.forEach(
-      (segment: SnakeSegment, index: number) => {
-        ctx.fillStyle = index === 0 ? "#ff6b6b" : "#ff5252";
-        ctx.fillRect(
-          segment.x * GRID_SIZE + 1,
-          segment.y * GRID_SIZE + 1,
-          GRID_SIZE - 2,
-          GRID_SIZE - 2
-        );
+  const runtime = useGameRuntime<SnakeGameState>({
+    gameState,
+    setGameState,
+    controls,
+    onGameEvent,
+    commands,
+    session,
+    init: () => {
+      // An evolved AI joins as a command, so a replay starts from it too
+      if (generationRef.current.generation > 1) {
+        runtime.queue({
+          type: "LOAD_AI_GENERATION",
+          data: generationRef.current,
+        });
       }
-    );
-
-    // Draw food
-    ctx.fillStyle =
-      snakeGameState.food.type === "special" ? "#ffd700" : "#4caf50";
-    ctx.fillRect(
-      snakeGameState.food.x * GRID_SIZE + 2,
-      snakeGameState.food.y * GRID_SIZE + 2,
-      GRID_SIZE - 4,
-      GRID_SIZE - 4
-    );
-
-    // Draw UI
-    ctx.fillStyle = "#fff";
-    ctx.font = "24px Arial";
-    ctx.fillText(`Player: ${snakeGameState.score}`, 20, 30);
-    ctx.fillText(`AI: ${snakeGameState.aiOpponent.score}`, 20, 60);
-
-    // AI behavior display
-    ctx.font = "16px Arial";
-    ctx.fillStyle = "#ff6b6b";
-    ctx.fillText(
-      `AI Aggression: ${Math.round(
-        snakeGameState.aiOpponent.behavior.aggression * 100
-      )}%`,
-      CANVAS_WIDTH - 200,
-      30
-    );
-    ctx.fillText(
-      `AI Adaptation: ${Math.round(
-        snakeGameState.aiOpponent.behavior.adaptation * 100
-      )}%`,
-      CANVAS_WIDTH - 200,
-      50
-    );
-
-    if (snakeGameState.paused) {
-      ctx.fillStyle = "rgba(0, 0, 0, 0.8)";
-      ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
-      ctx.fillStyle = "#fff";
-      ctx.font = "48px Arial";
-      ctx.textAlign = "center";
-      ctx.fillText("PAUSED", CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2);
-      ctx.textAlign = "left";
-    }
-
-    if (snakeGameState.gameOver) {
-      ctx.fillStyle = "rgba(0, 0, 0, 0.8)";
-      ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
-      ctx.fillStyle = "#fff";
-      ctx.font = "48px Arial";
-      ctx.textAlign = "center";
-      ctx.fillText("GAME OVER", CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 - 50);
-
-      let winner = "Tie!";
-      if (snakeGameState.score > snakeGameState.aiOpponent.score)
-        winner = "Player Wins!";
-      else if (snakeGameState.aiOpponent.score > snakeGameState.score)
-        winner = "AI Wins!";
-
-      ctx.font = "32px Arial";
-      ctx.fillText(winner, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 20);
-      ctx.textAlign = "left";
-    }
-  }, [gameState, canvas]);
-
-  // Start game loop
+      return createInitialState();
+    },
+    step: stepGame,
+    render: renderGame,
+    snapshot: (state) => ({
+      score: state.score,
+      aiScore: Math.max(...state.aiSnakes.map((ai) => ai.score)),
+      gameOver: state.gameOver,
+    }),
+  });
+
+  // Pause toggle; steering is read from the tick input in stepGame
   useEffect(() => {
-    const snakeGameState = gameState as SnakeGameState;
-
-    // Guard: Only start game loop when fully initialized
-    if (
-      snakeGameState.snake &&
-      snakeGameState.direction &&
-      !snakeGameState.gameOver
-    ) {
-      animationFrameRef.current = requestAnimationFrame(updateGame);
-    }
-
-    return () => {
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current);
-      }
-    };
-  }, [updateGame, gameState]);
+    // Pause toggles once per press, not once per key repeat
+    const pauseDown = controls.actions.pause;
+    const pausePressed = pauseDown && !pauseWasDownRef.current;
+    pauseWasDownRef.current = pauseDown;
+
+    const snakeGameState = runtime.getState();
+    if (!snakeGameState || snakeGameState.gameOver) return;
+
+    if (pausePressed) runtime.togglePause();
+  }, [controls.actions.pause, runtime]);
 
   return null; // This component only handles game logic, rendering is done on canvas
 };
@@ -0,0 +1,718 @@
+import React, { useEffect, useCallback, useRef } from "react";
+import {
+  ControlState,
+  GameEngineProps,
+  GameResult,
+  GameState as BaseGameState,
+  RenderFrame,
+  TickInput,
+} from "../../types/gameTypes";
+import useGameRuntime from "../../hooks/useGameRuntime";
+import {
+  Board,
+  BOARD_COLS,
+  BOARD_ROWS,
+  collapse,
+  dropDistance,
+  emptyBoard,
+  gravityMs,
+  KIND_COLORS,
+  lineScore,
+  LINES_PER_LEVEL,
+  lockPiece,
+  MARATHON_LINES,
+  movePiece,
+  pieceFits,
+  possibleShapes,
+  QuantumPiece,
+  respawn,
+  rotatePiece,
+  shapeCells,
+  shuffledBag,
+  spawnPiece,
+  TetrominoKind,
+} from "./quantumTetris";
+
+interface TetrisGameState extends BaseGameState {
+  board: Board;
+  piece: QuantumPiece;
+  next: QuantumPiece[]; // Upcoming pieces, already in superposition
+  bag: TetrominoKind[]; // First shapes still to come in this bag
+  hold: QuantumPiece[]; // Oldest first, up to HOLD_QUEUE_SIZE
+  canHold: boolean; // Once per piece
+  score: number;
+  lines: number;
+  level: number;
+  startLevel: number;
+  gameOver: boolean;
+  won: boolean;
+  gravityTimer: number; // ms since the piece last fell a row
+  lockTimer: number; // ms the piece has rested on the stack
+  lockResets: number; // Moves made while resting, which restart the lock delay
+  repeat: { left: number; right: number; down: number }; // ms each has been held; -1 when up
+  pressed: Record<"rotate" | "observe" | "hold" | "drop", boolean>; // Held last step
+  gesture: TouchGesture | null;
+  pieces: number;
+  observed: number; // Pieces the player collapsed themselves
+  measured: number; // Pieces the board collapsed as they locked
+  quantumPoints: number; // Bonus from lines cleared by measured pieces
+  gameStartTime: number;
+}
+
+// One touch on the board, from the first finger down to the last one up
+interface TouchGesture {
+  startX: number; // Client pixels, where the first finger went down
+  startY: number;
+  lastX: number;
+  lastY: number;
+  startedAt: number;
+  fingers: number; // Most fingers down at once
+  cols: number; // Columns the drag has moved the piece so far
+  rows: number; // Rows the drag has soft dropped so far
+  moved: boolean;
+}
+
+const CANVAS_WIDTH = 800;
+const CANVAS_HEIGHT = 600;
+const CELL = 26;
+const BOARD_LEFT = (CANVAS_WIDTH - BOARD_COLS * CELL) / 2;
+const BOARD_TOP = (CANVAS_HEIGHT - BOARD_ROWS * CELL) / 2;
+const PREVIEW_CELL = 16;
+
+const NEXT_COUNT = 3;
+const HOLD_QUEUE_SIZE = 2;
+const LOCK_DELAY = 500; // ms a piece can rest on the stack before it locks
+const MAX_LOCK_RESETS = 15;
+const AUTO_REPEAT_DELAY = 170; // ms a move key is held before it repeats
+const AUTO_REPEAT_MS = 50;
+const SOFT_DROP_MS = 40;
+
+// Touch: drag a cell's width to move a column, tap to rotate, tap with two
+// fingers to observe, flick down to hard drop and up to hold
+const TOUCH_CELL = 30;
+const TAP_SLOP = 10;
+const TAP_MS = 250;
+const FLICK_DISTANCE = 80;
+const FLICK_MS = 300;
+
+// The level a run starts on
+const START_LEVEL: Record<string, number> = {
+  easy: 1,
+  normal: 3,
+  hard: 6,
+};
+
+// The end-of-run report for the workshop's results screen
+const tetrisResult = (state: TetrisGameState, now: number): GameResult => ({
+  winner: state.won ? "player" : "ai",
+  sides: state.won ? undefined : ["You", "Gravity"],
+  score: state.score,
+  stats: [
+    { label: "Lines", value: state.lines },
+    { label: "Level", value: state.level },
+    { label: "Pieces", value: state.pieces },
+    { label: "Observed by You", value: state.observed },
+    { label: "Measured by the Board", value: state.measured },
+    { label: "Quantum Bonus", value: state.quantumPoints },
+    {
+      label: "Time",
+      value: `${Math.round((now - state.gameStartTime) / 1000)}s`,
+    },
+  ],
+});
+
+const QuantumTetrisGame: React.FC<GameEngineProps> = ({
+  canvas,
+  gameState,
+  setGameState,
+  controls,
+  onGameEvent,
+  commands,
+  session,
+  difficulty,
+}) => {
+  const pauseWasDownRef = useRef(false);
+  const { random, clock } = session;
+
+  // Takes the next first shape from the bag, opening a new bag when it's empty
+  const drawFromBag = useCallback(
+    (bag: TetrominoKind[]): [QuantumPiece, TetrominoKind[]] => {
+      const [first, ...rest] = bag.length > 0 ? bag : shuffledBag(random.next);
+      return [spawnPiece(first, random.next), rest];
+    },
+    [random]
+  );
+
+  // Fresh state for a new run
+  const createInitialState = useCallback((): TetrisGameState => {
+    let bag: TetrominoKind[] = [];
+    const pieces: QuantumPiece[] = [];
+    for (let i = 0; i <= NEXT_COUNT; i++) {
+      const [piece, rest] = drawFromBag(bag);
+      pieces.push(piece);
+      bag = rest;
+    }
+    const startLevel = START_LEVEL[difficulty] ?? START_LEVEL.normal;
+
+    onGameEvent({ type: "start", data: { mode: "quantum-tetris" } });
+
+    return {
+      board: emptyBoard(),
+      piece: pieces[0],
+      next: pieces.slice(1),
+      bag,
+      hold: [],
+      canHold: true,
+      score: 0,
+      lines: 0,
+      level: startLevel,
+      startLevel,
+      gameOver: false,
+      won: false,
+      gravityTimer: 0,
+      lockTimer: 0,
+      lockResets: 0,
+      repeat: { left: -1, right: -1, down: -1 },
+      pressed: { rotate: false, observe: false, hold: false, drop: false },
+      gesture: null,
+      pieces: 0,
+      observed: 0,
+      measured: 0,
+      quantumPoints: 0,
+      gameStartTime: clock.now(),
+    };
+  }, [onGameEvent, clock, difficulty, drawFromBag]);
+
+  // Locks the piece. If the player never observed it, the board measures it
+  // now, and any lines it clears score double.
+  const lockAndSpawn = useCallback(
+    (state: TetrisGameState): TetrisGameState => {
+      const unobserved = !state.piece.observed;
+      const piece = collapse(state.piece, random.next);
+      const { board, lines, toppedOut } = lockPiece(state.board, piece);
+
+      const totalLines = state.lines + lines;
+      const level = state.startLevel + Math.floor(totalLines / LINES_PER_LEVEL);
+      const points = lineScore(lines, state.level, unobserved);
+      const [drawn, bag] = drawFromBag(state.bag);
+      const [upcoming, ...next] = [...state.next, drawn];
+
+      const locked: TetrisGameState = {
+        ...state,
+        board,
+        piece: upcoming,
+        next,
+        bag,
+        canHold: true,
+        score: state.score + points,
+        lines: totalLines,
+        level,
+        gravityTimer: 0,
+        lockTimer: 0,
+        lockResets: 0,
+        pieces: state.pieces + 1,
+        measured: state.measured + (unobserved ? 1 : 0),
+        quantumPoints: state.quantumPoints + (unobserved ? points / 2 : 0),
+      };
+      if (points > 0) {
+        onGameEvent({
+          type: "score",
+          data: { score: locked.score, points },
+        });
+      }
+
+      // Topping out (locking above the board, or no room for the next
+      // piece) ends the run, and so does finishing the marathon
+      const won = !toppedOut && totalLines >= MARATHON_LINES;
+      if (won || toppedOut || !pieceFits(board, upcoming)) {
+        const ended = { ...locked, gameOver: true, won };
+        onGameEvent({
+          type: "end",
+          data: tetrisResult(ended, clock.now()),
+        });
+        return ended;
+      }
+      return locked;
+    },
+    [onGameEvent, random, clock, drawFromBag]
+  );
+
+  // Turns a touch gesture into moves while it's held, and into a rotate,
+  // observe, hard drop or hold when the last finger comes up
+  const readTouch = useCallback(
+    (
+      state: TetrisGameState,
+      touch: ControlState["touch"]
+    ): {
+      gesture: TouchGesture | null;
+      cols: number;
+      rows: number;
+      tap: "rotate" | "observe" | "drop" | "hold" | null;
+    } => {
+      const now = clock.now();
+      const { gesture } = state;
+      if (touch.length > 0) {
+        const [finger] = touch;
+        const started = gesture ?? {
+          startX: finger.x,
+          startY: finger.y,
+          lastX: finger.x,
+          lastY: finger.y,
+          startedAt: now,
+          fingers: 0,
+          cols: 0,
+          rows: 0,
+          moved: false,
+        };
+        const dx = finger.x - started.startX;
+        const dy = finger.y - started.startY;
+        const cols = Math.trunc(dx / TOUCH_CELL);
+        const rows = Math.max(0, Math.floor(dy / TOUCH_CELL));
+        return {
+          gesture: {
+            ...started,
+            lastX: finger.x,
+            lastY: finger.y,
+            fingers: Math.max(started.fingers, touch.length),
+            cols,
+            rows,
+            moved:
+              started.moved ||
+              Math.abs(dx) > TAP_SLOP ||
+              Math.abs(dy) > TAP_SLOP,
+          },
+          cols: cols - started.cols,
+          rows: rows - started.rows,
+          tap: null,
+        };
+      }
+      if (!gesture) return { gesture: null, cols: 0, rows: 0, tap: null };
+
+      // Released: a tap, a flick or the end of a drag
+      const elapsed = now - gesture.startedAt;
+      const dy = gesture.lastY - gesture.startY;
+      let tap: "rotate" | "observe" | "drop" | "hold" | null = null;
+      if (!gesture.moved && elapsed < TAP_MS) {
+        tap = gesture.fingers > 1 ? "observe" : "rotate";
+      } else if (elapsed < FLICK_MS && dy > FLICK_DISTANCE) {
+        tap = "drop";
+      } else if (elapsed < FLICK_MS && dy < -FLICK_DISTANCE) {
+        tap = "hold";
+      }
+      return { gesture: null, cols: 0, rows: 0, tap };
+    },
+    [clock]
+  );
+
+  // One fixed simulation step: input, then gravity, then locking
+  const stepGame = useCallback(
+    (
+      current: TetrisGameState,
+      stepMs: number,
+      input: TickInput
+    ): TetrisGameState => {
+      if (current.gameOver) return current;
+      const { controls } = input;
+      const { actions } = controls;
+      let state = current;
+
+      // Presses that act once, on the step they go down
+      const down = {
+        rotate: actions.up,
+        observe: actions.fire,
+        hold: actions.hold,
+        drop: actions.drop,
+      };
+      const touch = readTouch(state, controls.touch);
+      const pressed = (key: keyof typeof down) =>
+        (down[key] && !state.pressed[key]) || touch.tap === key;
+      const wants = {
+        rotate: pressed("rotate"),
+        observe: pressed("observe"),
+        hold: pressed("hold"),
+        drop: pressed("drop"),
+      };
+      state = { ...state, pressed: down, gesture: touch.gesture };
+
+      // Moves that repeat while held: once on press, then every `every` ms
+      // once they've been held for `delay`
+      const repeats = (
+        held: boolean,
+        heldFor: number,
+        delay: number,
+        every: number
+      ) => {
+        if (!held) return { heldFor: -1, times: 0 };
+        if (heldFor < 0) return { heldFor: 0, times: 1 };
+        const count = (ms: number) =>
+          ms < delay ? 0 : Math.floor((ms - delay) / every) + 1;
+        const next = heldFor + stepMs;
+        return { heldFor: next, times: count(next) - count(heldFor) };
+      };
+      const { repeat } = state;
+      const left = repeats(
+        actions.left,
+        repeat.left,
+        AUTO_REPEAT_DELAY,
+        AUTO_REPEAT_MS
+      );
+      const right = repeats(
+        actions.right,
+        repeat.right,
+        AUTO_REPEAT_DELAY,
+        AUTO_REPEAT_MS
+      );
+      const softDrop = repeats(actions.down, repeat.down, 0, SOFT_DROP_MS);
+      state = {
+        ...state,
+        repeat: {
+          left: left.heldFor,
+          right: right.heldFor,
+          down: softDrop.heldFor,
+        },
+      };
+
+      // Hold: the piece joins the back of the hold queue, keeping whatever
+      // state of superposition it was in. Once the queue is full, the oldest
+      // held piece comes back out; until then the next piece does.
+      if (wants.hold && state.canHold) {
+        let { next, bag } = state;
+        let [incoming, ...kept] = state.hold;
+        if (state.hold.length < HOLD_QUEUE_SIZE) {
+          const [drawn, rest] = drawFromBag(bag);
+          [incoming, ...next] = [...next, drawn];
+          kept = state.hold;
+          bag = rest;
+        }
+        state = {
+          ...state,
+          piece: respawn(incoming),
+          hold: [...kept, respawn(state.piece)],
+          next,
+          bag,
+          canHold: false,
+          gravityTimer: 0,
+          lockTimer: 0,
+          lockResets: 0,
+        };
+        if (!pieceFits(state.board, state.piece)) {
+          const ended = { ...state, gameOver: true };
+          onGameEvent({
+            type: "end",
+            data: tetrisResult(ended, clock.now()),
+          });
+          return ended;
+        }
+      }
+
+      // Observe: the piece collapses into one shape, by its odds
+      if (wants.observe && !state.piece.observed) {
+        state = {
+          ...state,
+          piece: collapse(state.piece, random.next),
+          observed: state.observed + 1,
+        };
+      }
+
+      // Rotations and sideways moves; each one made while resting on the
+      // stack buys a little more time before it locks
+      const resting = () => !movePiece(state.board, state.piece, 0, 1);
+      const tryMove = (moved: QuantumPiece | null) => {
+        if (!moved) return;
+        state = { ...state, piece: moved };
+        if (resting() && state.lockResets < MAX_LOCK_RESETS) {
+          state = {
+            ...state,
+            lockTimer: 0,
+            lockResets: state.lockResets + 1,
+          };
+        }
+      };
+      if (wants.rotate) tryMove(rotatePiece(state.board, state.piece));
+      const sideways = right.times - left.times + touch.cols;
+      for (let i = 0; i < Math.abs(sideways); i++) {
+        tryMove(movePiece(state.board, state.piece, Math.sign(sideways), 0));
+      }
+
+      // Hard drop: straight down and locked, 2 points a row
+      if (wants.drop) {
+        const rows = dropDistance(state.board, state.piece);
+        return lockAndSpawn({
+          ...state,
+          piece: { ...state.piece, y: state.piece.y + rows },
+          score: state.score + rows * 2,
+        });
+      }
+
+      // Soft drop: a point a row
+      for (let i = 0; i < softDrop.times + touch.rows; i++) {
+        const moved = movePiece(state.board, state.piece, 0, 1);
+        if (!moved) break;
+        state = {
+          ...state,
+          piece: moved,
+          score: state.score + 1,
+          gravityTimer: 0,
+        };
+      }
+
+      // Gravity
+      let gravityTimer = state.gravityTimer + stepMs;
+      const interval = gravityMs(state.level);
+      while (gravityTimer >= interval) {
+        gravityTimer -= interval;
+        const moved = movePiece(state.board, state.piece, 0, 1);
+        if (moved) state = { ...state, piece: moved };
+      }
+      state = { ...state, gravityTimer };
+
+      // Resting on the stack: lock once the delay runs out
+      if (!resting()) return { ...state, lockTimer: 0 };
+      const lockTimer = state.lockTimer + stepMs;
+      if (lockTimer < LOCK_DELAY) return { ...state, lockTimer };
+      return lockAndSpawn(state);
+    },
+    [onGameEvent, clock, random, drawFromBag, lockAndSpawn, readTouch]
+  );
+
+  // Render game (every animation frame)
+  const renderGame = useCallback(
+    (tetrisGameState: TetrisGameState, { paused }: RenderFrame) => {
+      if (!canvas.current) return;
+
+      const ctx = canvas.current.getContext("2d");
+      if (!ctx) return;
+
+      const { board, piece, next, hold } = tetrisGameState;
+      const now = clock.now();
+
+      // Clear canvas
+      ctx.fillStyle = "#000";
+      ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+      // Board and grid
+      ctx.fillStyle = "#0a0a1a";
+      ctx.fillRect(BOARD_LEFT, BOARD_TOP, BOARD_COLS * CELL, BOARD_ROWS * CELL);
+      ctx.strokeStyle = "#1a1a2e";
+      ctx.lineWidth = 1;
+      for (let x = 0; x <= BOARD_COLS; x++) {
+        ctx.beginPath();
+        ctx.moveTo(BOARD_LEFT + x * CELL, BOARD_TOP);
+        ctx.lineTo(BOARD_LEFT + x * CELL, BOARD_TOP + BOARD_ROWS * CELL);
+        ctx.stroke();
+      }
+      for (let y = 0; y <= BOARD_ROWS; y++) {
+        ctx.beginPath();
+        ctx.moveTo(BOARD_LEFT, BOARD_TOP + y * CELL);
+        ctx.lineTo(BOARD_LEFT + BOARD_COLS * CELL, BOARD_TOP + y * CELL);
+        ctx.stroke();
+      }
+      ctx.strokeStyle = "#667eea";
+      ctx.lineWidth = 2;
+      ctx.strokeRect(
+        BOARD_LEFT,
+        BOARD_TOP,
+        BOARD_COLS * CELL,
+        BOARD_ROWS * CELL
+      );
+
+      const drawCell = (
+        x: number,
+        y: number,
+        color: string,
+        size = CELL,
+        left = BOARD_LEFT,
+        top = BOARD_TOP
+      ) => {
+        ctx.fillStyle = color;
+        ctx.fillRect(
+          left + x * size + 1,
+          top + y * size + 1,
+          size - 2,
+          size - 2
+        );
+      };
+
+      // Locked cells
+      board.forEach((row, y) =>
+        row.forEach((kind, x) => {
+          if (kind) drawCell(x, y, KIND_COLORS[kind]);
+        })
+      );
+
+      // Where it would land: an outline for each shape it could still be
+      const landing = piece.y + dropDistance(board, piece);
+      possibleShapes(piece).forEach((kind) => {
+        ctx.strokeStyle = KIND_COLORS[kind];
+        ctx.lineWidth = 1;
+        shapeCells(kind, piece.rotation, piece.x, landing).forEach((cell) =>
+          ctx.strokeRect(
+            BOARD_LEFT + cell.x * CELL + 2,
+            BOARD_TOP + cell.y * CELL + 2,
+            CELL - 4,
+            CELL - 4
+          )
+        );
+      });
+
+      // The falling piece: solid once observed, otherwise both shapes
+      // flickering in and out of phase
+      const drawQuantumPiece = (
+        drawn: QuantumPiece,
+        x: number,
+        y: number,
+        size: number,
+        left: number,
+        top: number
+      ) => {
+        possibleShapes(drawn).forEach((kind, i) => {
+          ctx.globalAlpha = drawn.observed
+            ? 1
+            : 0.35 + 0.3 * (0.5 + 0.5 * Math.sin(now * 0.006 + i * Math.PI));
+          shapeCells(kind, drawn.rotation, x, y).forEach((cell) =>
+            drawCell(cell.x, cell.y, KIND_COLORS[kind], size, left, top)
+          );
+        });
+        ctx.globalAlpha = 1;
+      };
+      drawQuantumPiece(piece, piece.x, piece.y, CELL, BOARD_LEFT, BOARD_TOP);
+
+      // The odds of the falling piece, or what it collapsed into
+      const odds = (shown: QuantumPiece) =>
+        shown.observed
+          ? `${shown.observed} (observed)`
+          : `${shown.kinds[0]} ${Math.round(shown.chance * 100)}% · ${
+              shown.kinds[1]
+            } ${Math.round((1 - shown.chance) * 100)}%`;
+      ctx.fillStyle = "#fff";
+      ctx.font = "16px Arial";
+      ctx.textAlign = "center";
+      ctx.fillText(`|ψ⟩ ${odds(piece)}`, CANVAS_WIDTH / 2, BOARD_TOP - 12);
+
+      // Hold queue and stats on the left, the next piece out of the queue first
+      const panelLeft = 60;
+      ctx.textAlign = "left";
+      ctx.font = "18px Arial";
+      ctx.fillStyle = "#4ecdc4";
+      ctx.fillText(
+        `HOLD (${hold.length}/${HOLD_QUEUE_SIZE})`,
+        panelLeft,
+        BOARD_TOP + 20
+      );
+      hold.forEach((held, i) => {
+        const top = BOARD_TOP + 34 + i * 100;
+        drawQuantumPiece(held, 0, 0, PREVIEW_CELL, panelLeft, top);
+        ctx.fillStyle = tetrisGameState.canHold ? "#ccc" : "#666";
+        ctx.font = "12px Arial";
+        ctx.fillText(odds(held), panelLeft, top + 76);
+      });
+
+      ctx.fillStyle = "#fff";
+      ctx.font = "20px Arial";
+      [
+        `Score: ${tetrisGameState.score}`,
+        `Level: ${tetrisGameState.level}`,
+        `Lines: ${tetrisGameState.lines}/${MARATHON_LINES}`,
+      ].forEach((line, i) =>
+        ctx.fillText(line, panelLeft, BOARD_TOP + 250 + i * 30)
+      );
+      ctx.font = "14px Arial";
+      ctx.fillStyle = "#a29bfe";
+      ctx.fillText(
+        `Quantum bonus: ${tetrisGameState.quantumPoints}`,
+        panelLeft,
+        BOARD_TOP + 350
+      );
+
+      // Upcoming pieces on the right
+      const panelRight = BOARD_LEFT + BOARD_COLS * CELL + 40;
+      ctx.font = "18px Arial";
+      ctx.fillStyle = "#4ecdc4";
+      ctx.fillText("NEXT", panelRight, BOARD_TOP + 20);
+      next.forEach((upcoming, i) => {
+        const top = BOARD_TOP + 34 + i * 100;
+        drawQuantumPiece(upcoming, 0, 0, PREVIEW_CELL, panelRight, top);
+        ctx.fillStyle = "#ccc";
+        ctx.font = "12px Arial";
+        ctx.fillText(odds(upcoming), panelRight, top + 76);
+      });
+
+      // Controls
+      ctx.fillStyle = "#888";
+      ctx.font = "12px Arial";
+      ctx.textAlign = "center";
+      ctx.fillText(
+        "←→ move · ↑ rotate · ↓ soft drop · X hard drop · C hold · F observe",
+        CANVAS_WIDTH / 2,
+        CANVAS_HEIGHT - 6
+      );
+      ctx.textAlign = "left";
+
+      if (paused) {
+        ctx.fillStyle = "rgba(0, 0, 0, 0.8)";
+        ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+        ctx.fillStyle = "#fff";
+        ctx.font = "48px Arial";
+        ctx.textAlign = "center";
+        ctx.fillText("PAUSED", CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2);
+        ctx.textAlign = "left";
+      }
+
+      if (tetrisGameState.gameOver) {
+        ctx.fillStyle = "rgba(0, 0, 0, 0.8)";
+        ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+        ctx.fillStyle = "#fff";
+        ctx.font = "48px Arial";
+        ctx.textAlign = "center";
+        ctx.fillText(
+          tetrisGameState.won ? "MARATHON CLEARED" : "GAME OVER",
+          CANVAS_WIDTH / 2,
+          CANVAS_HEIGHT / 2 - 30
+        );
+        ctx.font = "24px Arial";
+        ctx.fillText(
+          `Score: ${tetrisGameState.score}`,
+          CANVAS_WIDTH / 2,
+          CANVAS_HEIGHT / 2 + 20
+        );
+        ctx.textAlign = "left";
+      }
+    },
+    [canvas, clock]
+  );
+
+  const runtime = useGameRuntime<TetrisGameState>({
+    gameState,
+    setGameState,
+    controls,
+    onGameEvent,
+    commands,
+    session,
+    init: createInitialState,
+    step: stepGame,
+    render: renderGame,
+    snapshot: (state) => ({
+      score: state.score,
+      level: state.level,
+      lines: state.lines,
+      gameOver: state.gameOver,
+    }),
+  });
+
+  // Pause toggle; everything else is read from the tick input in stepGame
+  useEffect(() => {
+    // Pause toggles once per press, not once per key repeat
+    const pauseDown = controls.actions.pause;
+    const pausePressed = pauseDown && !pauseWasDownRef.current;
+    pauseWasDownRef.current = pauseDown;
+
+    const tetrisGameState = runtime.getState();
+    if (!tetrisGameState || tetrisGameState.gameOver) return;
+
+    if (pausePressed) runtime.togglePause();
+  }, [controls.actions.pause, runtime]);
+
+  return null; // This component only handles game logic, rendering is done on canvas
+};
+
+export default QuantumTetrisGame;
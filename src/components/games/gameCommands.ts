@@ -0,0 +1,41 @@
+import {
+  GAME_HEIGHT,
+  GAME_WIDTH,
+  GameCommand,
+  GameCommandBus,
+} from "../../types/gameTypes";
+
+// Host → game channel. The workshop owns one bus and hands games the read side.
+export function createGameCommandBus(): GameCommandBus {
+  const handlers = new Set<(command: GameCommand) => void>();
+
+  return {
+    subscribe: (handler) => {
+      handlers.add(handler);
+      return () => {
+        handlers.delete(handler);
+      };
+    },
+    send: (command) => {
+      handlers.forEach((handler) => handler(command));
+    },
+  };
+}
+
+// Converts a pointer position to game-area coordinates, or null when it's outside the game
+export function toGameCoordinates(
+  canvas: HTMLCanvasElement,
+  clientX: number,
+  clientY: number
+): { x: number; y: number } | null {
+  const rect = canvas.getBoundingClientRect();
+  const scaleX = canvas.width / rect.width;
+  const scaleY = canvas.height / rect.height;
+
+  // The game area is centered on the full-screen canvas
+  const x = (clientX - rect.left) * scaleX - (canvas.width - GAME_WIDTH) / 2;
+  const y = (clientY - rect.top) * scaleY - (canvas.height - GAME_HEIGHT) / 2;
+
+  if (x < 0 || x > GAME_WIDTH || y < 0 || y > GAME_HEIGHT) return null;
+  return { x, y };
+}
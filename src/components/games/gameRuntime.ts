@@ -0,0 +1,82 @@
+import {
+  DEFAULT_STEP_MS,
+  GameRuntime,
+  GameRuntimeOptions,
+} from "../../types/gameTypes";
+
+// Frames longer than this (tab switches, breakpoints) are clipped so the
+// simulation doesn't try to catch up on minutes of missed steps at once
+const MAX_FRAME_MS = 250;
+
+/*
+ * 🕹️ Fixed-timestep loop: the simulation always advances in stepMs slices,
+ * no matter the display's refresh rate, and rendering interpolates between
+ * the last two steps. State lives here, not in React.
+ */
+export function createGameRuntime<S, P = unknown>(
+  options: GameRuntimeOptions<S, P>
+): GameRuntime<S> {
+  const stepMs = options.stepMs ?? DEFAULT_STEP_MS;
+  let state = options.initialState;
+  let previous: P | null = null;
+  let accumulator = 0;
+  let lastFrame: number | null = null;
+  let frameId: number | null = null;
+  let paused = false;
+
+  const frame = (timestamp: number) => {
+    const elapsed =
+      lastFrame === null ? 0 : Math.min(timestamp - lastFrame, MAX_FRAME_MS);
+    lastFrame = timestamp;
+
+    if (!paused) {
+      accumulator += elapsed;
+      let stepped = false;
+      // step() may pause the run (e.g. a replay running out), so re-check each time
+      while (!paused && accumulator >= stepMs) {
+        previous = options.capture ? options.capture(state) : null;
+        state = options.step(state, stepMs);
+        accumulator -= stepMs;
+        stepped = true;
+      }
+      if (stepped) options.onStep?.(state);
+    }
+
+    options.render(state, {
+      alpha: paused ? 1 : accumulator / stepMs,
+      previous,
+      paused,
+    });
+    frameId = requestAnimationFrame(frame);
+  };
+
+  return {
+    start: () => {
+      if (frameId !== null) return;
+      lastFrame = null;
+      frameId = requestAnimationFrame(frame);
+    },
+    stop: () => {
+      if (frameId !== null) cancelAnimationFrame(frameId);
+      frameId = null;
+    },
+    pause: () => {
+      paused = true;
+    },
+    resume: () => {
+      // Drop the time spent paused instead of replaying it
+      paused = false;
+      accumulator = 0;
+    },
+    isPaused: () => paused,
+    getState: () => state,
+    setState: (next) => {
+      state = next;
+      previous = null;
+      accumulator = 0;
+    },
+    update: (updater) => {
+      state = updater(state);
+    },
+  };
+}
@@ -0,0 +1,238 @@
+import {
+  ActionState,
+  ControlState,
+  DEFAULT_STEP_MS,
+  GAME_ACTIONS,
+  GameCommand,
+  GameReplay,
+  GameSession,
+  GameSettings,
+  TickInput,
+} from "../../types/gameTypes";
+import { isSerializedNetwork } from "./networkBrains";
+import { isSnakeLevel } from "./snakeLevels";
+
+// mulberry32: tiny, fast and good enough for games
+export function createSeededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function newSeed() {
+  return Math.floor(Math.random() * 2 ** 32);
+}
+
+/*
+ * 📼 One game's source of randomness, time and input. Live runs record every
+ * change in controls per tick; replays feed that tape back in instead, so
+ * the same seed plus the same input reproduces the run exactly.
+ */
+export function createGameSession(
+  gameId: string,
+  replay: GameReplay | null = null,
+  settings: GameSettings = {
+    difficulty: replay?.difficulty ?? "normal",
+    mode: replay?.mode ?? "solo",
+    brain: replay?.brain ?? null,
+    level: replay?.level ?? null,
+  }
+): GameSession {
+  let seed = replay?.seed ?? newSeed();
+  let nextRandom = createSeededRandom(seed);
+  let tick = 0;
+  let stepMs = replay?.stepMs ?? DEFAULT_STEP_MS;
+  let inputs: GameReplay["inputs"] = [];
+  let lastControls = "";
+  let replayIndex = 0;
+  let replayControls: ControlState | null = null;
+
+  const session: GameSession = {
+    random: { next: () => nextRandom() },
+    clock: { now: () => tick * stepMs },
+
+    begin: () => {
+      seed = replay?.seed ?? newSeed();
+      nextRandom = createSeededRandom(seed);
+      tick = 0;
+      inputs = [];
+      lastControls = "";
+      replayIndex = 0;
+      replayControls = null;
+    },
+
+    advance: (live, tickMs) => {
+      stepMs = tickMs;
+      let input: TickInput;
+
+      if (replay) {
+        const entry = replay.inputs[replayIndex];
+        const commands = entry?.tick === tick ? entry.commands ?? [] : [];
+        if (entry?.tick === tick) {
+          replayControls = entry.controls ?? replayControls;
+          replayIndex++;
+        }
+        input = { controls: replayControls ?? live.controls, commands };
+      } else {
+        // Controls only go on the tape when they change
+        const controls = JSON.stringify(live.controls);
+        const entry: GameReplay["inputs"][number] = { tick };
+        if (controls !== lastControls) entry.controls = live.controls;
+        if (live.commands.length > 0) entry.commands = live.commands;
+        if (entry.controls || entry.commands) inputs.push(entry);
+        lastControls = controls;
+        input = live;
+      }
+
+      tick++;
+      return input;
+    },
+
+    isReplaying: () => replay !== null,
+    isReplayFinished: () => replay !== null && tick >= replay.ticks,
+
+    toReplay: () => ({
+      version: 1,
+      gameId,
+      seed,
+      difficulty: settings.difficulty,
+      mode: settings.mode,
+      brain: settings.brain ?? undefined,
+      level: settings.level ?? undefined,
+      stepMs,
+      ticks: tick,
+      inputs,
+    }),
+  };
+
+  return session;
+}
+
+/* ✅ Validating replay files: a malformed tape would throw inside the game loop */
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const isActionState = (value: unknown): value is ActionState =>
+  isRecord(value) &&
+  GAME_ACTIONS.every((action) => typeof value[action] === "boolean");
+
+const isGamepadState = (value: unknown) =>
+  isRecord(value) &&
+  Number.isInteger(value.index) &&
+  typeof value.id === "string" &&
+  Array.isArray(value.buttons) &&
+  value.buttons.every((button) => typeof button === "boolean") &&
+  Array.isArray(value.axes) &&
+  value.axes.every(isNumber) &&
+  typeof value.connected === "boolean";
+
+function isControlState(value: unknown): value is ControlState {
+  if (!isRecord(value)) return false;
+  const { keyboard, mouse, touch, gamepad, gamepads, actions, players } = value;
+  return (
+    isRecord(keyboard) &&
+    Object.values(keyboard).every((held) => typeof held === "boolean") &&
+    isRecord(mouse) &&
+    isNumber(mouse.x) &&
+    isNumber(mouse.y) &&
+    Array.isArray(mouse.buttons) &&
+    Array.isArray(touch) &&
+    touch.every(
+      (point) =>
+        isRecord(point) &&
+        isNumber(point.id) &&
+        isNumber(point.x) &&
+        isNumber(point.y)
+    ) &&
+    (gamepad === null || isGamepadState(gamepad)) &&
+    Array.isArray(gamepads) &&
+    gamepads.every(isGamepadState) &&
+    isActionState(actions) &&
+    Array.isArray(players) &&
+    players.length === 2 &&
+    players.every(isActionState)
+  );
+}
+
+function isGameCommand(value: unknown): value is GameCommand {
+  if (!isRecord(value)) return false;
+  const data = value.data as Record<string, unknown> | undefined;
+  switch (value.type) {
+    case "PAUSE":
+    case "RESUME":
+    case "TOGGLE_PAUSE":
+    case "RESTART":
+      return true;
+    case "LASER_SHOOT":
+      return isRecord(data) && isNumber(data.targetX) && isNumber(data.targetY);
+    case "LOAD_BRAIN":
+      return (
+        isSerializedNetwork(data) &&
+        (value.loss === undefined || isNumber(value.loss))
+      );
+    case "LOAD_AI_GENERATION":
+      return (
+        isRecord(data) &&
+        Number.isInteger(data.generation) &&
+        isRecord(data.traits) &&
+        isNumber(data.traits.aggression) &&
+        isNumber(data.traits.prediction) &&
+        isNumber(data.traits.adaptation)
+      );
+    default:
+      return false;
+  }
+}
+
+// Entries must be in tick order, each with valid controls and known commands
+function isReplayTape(inputs: unknown): inputs is GameReplay["inputs"] {
+  if (!Array.isArray(inputs)) return false;
+  let lastTick = -1;
+  return inputs.every((entry) => {
+    if (
+      !isRecord(entry) ||
+      !Number.isInteger(entry.tick) ||
+      (entry.tick as number) <= lastTick ||
+      (entry.controls !== undefined && !isControlState(entry.controls)) ||
+      (entry.commands !== undefined &&
+        !(Array.isArray(entry.commands) && entry.commands.every(isGameCommand)))
+    ) {
+      return false;
+    }
+    lastTick = entry.tick as number;
+    return true;
+  });
+}
+
+// Validates an uploaded replay file; returns null if it isn't one of ours
+export function parseReplay(json: string): GameReplay | null {
+  try {
+    const data = JSON.parse(json);
+    if (
+      data?.version !== 1 ||
+      typeof data.gameId !== "string" ||
+      !Number.isFinite(data.seed) ||
+      (data.difficulty !== undefined && typeof data.difficulty !== "string") ||
+      (data.mode !== undefined && typeof data.mode !== "string") ||
+      (data.brain !== undefined && !isSerializedNetwork(data.brain)) ||
+      (data.level !== undefined && !isSnakeLevel(data.level)) ||
+      !Number.isFinite(data.stepMs) ||
+      !Number.isFinite(data.ticks) ||
+      !isReplayTape(data.inputs)
+    ) {
+      return null;
+    }
+    return data as GameReplay;
+  } catch {
+    return null;
+  }
+}
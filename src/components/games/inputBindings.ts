@@ -0,0 +1,227 @@
+import {
+  ActionState,
+  ControlState,
+  GAME_ACTIONS,
+  GameAction,
+  GamepadInput,
+  InputBindings,
+} from "../../types/gameTypes";
+
+// How far a stick has to lean before it counts as a direction
+export const AXIS_THRESHOLD = 0.5;
+
+// Arrows and WASD to move, F/Enter to fire, Space/P to pause, X to drop and
+// C/Shift to hold; the standard gamepad layout's d-pad, left stick, A, Start,
+// B and the shoulder buttons on any pad
+export const DEFAULT_BINDINGS: InputBindings = {
+  keyboard: {
+    up: ["ArrowUp", "w"],
+    down: ["ArrowDown", "s"],
+    left: ["ArrowLeft", "a"],
+    right: ["ArrowRight", "d"],
+    fire: ["f", "Enter"],
+    pause: [" ", "p"],
+    drop: ["x"],
+    hold: ["c", "Shift"],
+  },
+  gamepad: {
+    up: [
+      { type: "button", index: 12 },
+      { type: "axis", index: 1, direction: -1 },
+    ],
+    down: [
+      { type: "button", index: 13 },
+      { type: "axis", index: 1, direction: 1 },
+    ],
+    left: [
+      { type: "button", index: 14 },
+      { type: "axis", index: 0, direction: -1 },
+    ],
+    right: [
+      { type: "button", index: 15 },
+      { type: "axis", index: 0, direction: 1 },
+    ],
+    fire: [{ type: "button", index: 0 }],
+    pause: [{ type: "button", index: 9 }],
+    drop: [{ type: "button", index: 1 }],
+    hold: [
+      { type: "button", index: 4 },
+      { type: "button", index: 5 },
+    ],
+  },
+  // In versus, player one keeps WASD/F and player two takes the arrows and Enter
+  player2: {
+    up: ["ArrowUp"],
+    down: ["ArrowDown"],
+    left: ["ArrowLeft"],
+    right: ["ArrowRight"],
+    fire: ["Enter"],
+    pause: [],
+    drop: [],
+    hold: [],
+  },
+};
+
+export const NO_ACTIONS: ActionState = {
+  up: false,
+  down: false,
+  left: false,
+  right: false,
+  fire: false,
+  pause: false,
+  drop: false,
+  hold: false,
+};
+
+// Letters are bound case-insensitively so Shift or Caps Lock don't break them
+const normalizeKey = (key: string) =>
+  key.length === 1 ? key.toLowerCase() : key;
+
+export const sameGamepadInput = (a: GamepadInput, b: GamepadInput) =>
+  a.type === b.type &&
+  a.index === b.index &&
+  (a.type === "button" || a.direction === (b as typeof a).direction);
+
+// Works out which actions are held from raw keys and every connected pad
+export function resolveActions(
+  controls: Pick<ControlState, "keyboard" | "gamepads">,
+  bindings: InputBindings
+): ActionState {
+  const heldKeys = new Set(
+    Object.keys(controls.keyboard)
+      .filter((key) => controls.keyboard[key])
+      .map(normalizeKey)
+  );
+
+  const actions = { ...NO_ACTIONS };
+  GAME_ACTIONS.forEach((action) => {
+    actions[action] =
+      bindings.keyboard[action].some((key) =>
+        heldKeys.has(normalizeKey(key))
+      ) ||
+      controls.gamepads.some((pad) =>
+        bindings.gamepad[action].some((input) =>
+          input.type === "button"
+            ? !!pad.buttons[input.index]
+            : (pad.axes[input.index] ?? 0) * input.direction > AXIS_THRESHOLD
+        )
+      );
+  });
+  return actions;
+}
+
+// Local versus: player two's keys are taken away from player one, and pads go
+// to players in the order they connected
+export function resolvePlayers(
+  controls: Pick<ControlState, "keyboard" | "gamepads">,
+  bindings: InputBindings
+): [ActionState, ActionState] {
+  const player2Keys = new Set(
+    GAME_ACTIONS.flatMap((action) => bindings.player2[action]).map(normalizeKey)
+  );
+  const player1Keyboard = { ...bindings.keyboard };
+  GAME_ACTIONS.forEach((action) => {
+    player1Keyboard[action] = player1Keyboard[action].filter(
+      (key) => !player2Keys.has(normalizeKey(key))
+    );
+  });
+
+  return [
+    resolveActions(
+      { keyboard: controls.keyboard, gamepads: controls.gamepads.slice(0, 1) },
+      { ...bindings, keyboard: player1Keyboard }
+    ),
+    resolveActions(
+      { keyboard: controls.keyboard, gamepads: controls.gamepads.slice(1, 2) },
+      { ...bindings, keyboard: bindings.player2 }
+    ),
+  ];
+}
+
+// Binds an input to one action, taking it away from any other action first
+export function bindKey(
+  bindings: InputBindings,
+  action: GameAction,
+  key: string,
+  keySet: "keyboard" | "player2" = "keyboard"
+): InputBindings {
+  const keys = { ...bindings[keySet] };
+  GAME_ACTIONS.forEach((other) => {
+    keys[other] = keys[other].filter(
+      (bound) => normalizeKey(bound) !== normalizeKey(key)
+    );
+  });
+  keys[action] = [...keys[action], key];
+  return { ...bindings, [keySet]: keys };
+}
+
+export function bindGamepadInput(
+  bindings: InputBindings,
+  action: GameAction,
+  input: GamepadInput
+): InputBindings {
+  const gamepad = { ...bindings.gamepad };
+  GAME_ACTIONS.forEach((other) => {
+    gamepad[other] = gamepad[other].filter(
+      (bound) => !sameGamepadInput(bound, input)
+    );
+  });
+  gamepad[action] = [...gamepad[action], input];
+  return { ...bindings, gamepad };
+}
+
+const KEY_LABELS: Record<string, string> = {
+  " ": "Space",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  ArrowLeft: "←",
+  ArrowRight: "→",
+};
+
+export function describeKey(key: string): string {
+  return KEY_LABELS[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+}
+
+export function describeGamepadInput(input: GamepadInput): string {
+  if (input.type === "button") return `Button ${input.index}`;
+  return `Axis ${input.index}${input.direction < 0 ? "−" : "+"}`;
+}
+
+// Validates saved bindings; anything missing or malformed falls back to the defaults
+export function parseBindings(json: string | null): InputBindings {
+  if (!json) return DEFAULT_BINDINGS;
+  try {
+    const data = JSON.parse(json);
+    const keyboard = { ...DEFAULT_BINDINGS.keyboard };
+    const gamepad = { ...DEFAULT_BINDINGS.gamepad };
+    const player2 = { ...DEFAULT_BINDINGS.player2 };
+    const isKeyList = (keys: unknown): keys is string[] =>
+      Array.isArray(keys) && keys.every((key) => typeof key === "string");
+
+    GAME_ACTIONS.forEach((action) => {
+      const keys = data?.keyboard?.[action];
+      if (isKeyList(keys)) keyboard[action] = keys;
+
+      const player2Keys = data?.player2?.[action];
+      if (isKeyList(player2Keys)) player2[action] = player2Keys;
+
+      const inputs = data?.gamepad?.[action];
+      if (
+        Array.isArray(inputs) &&
+        inputs.every(
+          (input) =>
+            Number.isInteger(input?.index) &&
+            (input.type === "button" ||
+              (input.type === "axis" &&
+                (input.direction === 1 || input.direction === -1)))
+        )
+      ) {
+        gamepad[action] = inputs;
+      }
+    });
+
+    return { keyboard, gamepad, player2 };
+  } catch {
+    return DEFAULT_BINDINGS;
+  }
+}
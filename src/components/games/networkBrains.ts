@@ -0,0 +1,53 @@
+import type { SavedBrain, SerializedNetwork } from "../../types/gameTypes";
+
+const isNumberList = (value: unknown): value is number[] =>
+  Array.isArray(value) && value.every((n) => Number.isFinite(n));
+
+// Shape check only; whether the layer sizes fit is up to the game loading it
+export function isSerializedNetwork(data: unknown): data is SerializedNetwork {
+  const network = data as SerializedNetwork | null;
+  return (
+    network?.version === 1 &&
+    Number.isFinite(network.learningRate) &&
+    Array.isArray(network.layers) &&
+    network.layers.length > 0 &&
+    network.layers.every(
+      (layer) =>
+        Array.isArray(layer?.weights) &&
+        layer.weights.every(isNumberList) &&
+        isNumberList(layer.biases)
+    )
+  );
+}
+
+function isSavedBrain(data: unknown): data is SavedBrain {
+  const brain = data as SavedBrain | null;
+  return (
+    typeof brain?.name === "string" &&
+    brain.name.trim() !== "" &&
+    typeof brain.gameId === "string" &&
+    Number.isFinite(brain.savedAt) &&
+    isSerializedNetwork(brain.network)
+  );
+}
+
+// One exported brain file, or null if it isn't one
+export function parseBrain(json: string): SavedBrain | null {
+  try {
+    const data = JSON.parse(json);
+    return isSavedBrain(data) ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+// The saved list; malformed entries are dropped rather than failing the lot
+export function parseBrains(json: string | null): SavedBrain[] {
+  if (!json) return [];
+  try {
+    const data = JSON.parse(json);
+    return Array.isArray(data) ? data.filter(isSavedBrain) : [];
+  } catch {
+    return [];
+  }
+}
@@ -0,0 +1,174 @@
+import type { NeuralNetwork } from "./neuralNetwork";
+
+// Which logic in makeAIMove produced a move
+export type DecisionPath = "neural" | "hybrid" | "tracking" | "boundary";
+
+export interface InspectorData {
+  network: NeuralNetwork;
+  input: number[]; // What the network saw for the latest move
+  path: DecisionPath;
+  confidence: number;
+  adaptationLevel: number;
+  lossHistory: number[]; // Oldest first
+}
+
+const PANEL_WIDTH = 340;
+const PANEL_HEIGHT = 260;
+const GRAPH_HEIGHT = 150;
+const CHART_HEIGHT = 40;
+
+const INPUT_LABELS = [
+  "ball x",
+  "ball y",
+  "ball dx",
+  "ball dy",
+  "paddle",
+  "foe",
+];
+const OUTPUT_LABELS = ["up", "stay", "down"];
+
+const PATH_STYLES: Record<DecisionPath, { label: string; color: string }> = {
+  neural: { label: "🧠 NEURAL", color: "#4ecdc4" },
+  hybrid: { label: "🔀 HYBRID", color: "#ffd93d" },
+  tracking: { label: "🎯 BALL TRACKING", color: "#ff9f43" },
+  boundary: { label: "🧱 BOUNDARY OVERRIDE", color: "#ff6b6b" },
+};
+
+/*
+ * 🔬 Draws the network as a graph (nodes lit by their live activation,
+ * edges by weight size and sign), the decision path behind the latest move
+ * and a rolling chart of training loss. Coordinates are game-area pixels.
+ */
+export function drawNetworkInspector(
+  ctx: CanvasRenderingContext2D,
+  data: InspectorData,
+  x: number,
+  y: number
+): void {
+  const { network, input, path, confidence, adaptationLevel, lossHistory } =
+    data;
+  const activations = network.activate(input);
+  const layers = network.weights;
+
+  ctx.save();
+  ctx.fillStyle = "rgba(0, 0, 0, 0.75)";
+  ctx.strokeStyle = "rgba(78, 205, 196, 0.6)";
+  ctx.lineWidth = 1;
+  ctx.fillRect(x, y, PANEL_WIDTH, PANEL_HEIGHT);
+  ctx.strokeRect(x, y, PANEL_WIDTH, PANEL_HEIGHT);
+
+  // Node positions: one column per layer, evenly spread
+  const graphTop = y + 30;
+  const graphLeft = x + 50;
+  const graphWidth = PANEL_WIDTH - 100;
+  const columns = activations.map((values, l) =>
+    values.map((_, i) => ({
+      x: graphLeft + (graphWidth * l) / (activations.length - 1),
+      y: graphTop + (GRAPH_HEIGHT * (i + 0.5)) / values.length,
+    }))
+  );
+
+  // Edges, scaled against the biggest weight in their layer
+  layers.forEach((layer, l) => {
+    const biggest = Math.max(
+      1e-6,
+      ...layer.weights.map((row) => Math.max(...row.map(Math.abs)))
+    );
+    layer.weights.forEach((row, j) =>
+      row.forEach((weight, k) => {
+        const strength = Math.abs(weight) / biggest;
+        ctx.strokeStyle =
+          weight >= 0
+            ? `rgba(78, 205, 196, ${strength * 0.8})`
+            : `rgba(255, 107, 107, ${strength * 0.8})`;
+        ctx.lineWidth = 0.5 + strength * 2;
+        ctx.beginPath();
+        ctx.moveTo(columns[l][j].x, columns[l][j].y);
+        ctx.lineTo(columns[l + 1][k].x, columns[l + 1][k].y);
+        ctx.stroke();
+      })
+    );
+  });
+
+  // Nodes, brighter the more active
+  const outputs = activations[activations.length - 1];
+  const chosen = outputs.indexOf(Math.max(...outputs));
+  columns.forEach((column, l) =>
+    column.forEach((node, i) => {
+      const value = Math.max(0, Math.min(1, Math.abs(activations[l][i])));
+      ctx.fillStyle = `rgba(255, 255, 255, ${0.15 + value * 0.85})`;
+      ctx.beginPath();
+      ctx.arc(node.x, node.y, 5, 0, Math.PI * 2);
+      ctx.fill();
+
+      const isOutput = l === columns.length - 1;
+      if (isOutput && i === chosen) {
+        ctx.strokeStyle = "#ffd93d";
+        ctx.lineWidth = 2;
+        ctx.stroke();
+      }
+    })
+  );
+
+  // Input and output labels
+  ctx.font = "10px monospace";
+  ctx.fillStyle = "rgba(255, 255, 255, 0.7)";
+  ctx.textAlign = "right";
+  columns[0].forEach((node, i) =>
+    ctx.fillText(INPUT_LABELS[i] ?? `in ${i}`, node.x - 8, node.y + 3)
+  );
+  ctx.textAlign = "left";
+  columns[columns.length - 1].forEach((node, i) =>
+    ctx.fillText(
+      `${OUTPUT_LABELS[i] ?? `out ${i}`} ${Math.round(outputs[i] * 100)}%`,
+      node.x + 8,
+      node.y + 3
+    )
+  );
+
+  // Header: which logic moved the paddle, and how sure the network is
+  const style = PATH_STYLES[path];
+  ctx.font = "bold 12px monospace";
+  ctx.fillStyle = style.color;
+  ctx.fillText(style.label, x + 8, y + 16);
+  ctx.font = "10px monospace";
+  ctx.fillStyle = "rgba(255, 255, 255, 0.7)";
+  ctx.textAlign = "right";
+  ctx.fillText(
+    `conf ${Math.round(confidence * 100)}%  adapt ${adaptationLevel}`,
+    x + PANEL_WIDTH - 8,
+    y + 16
+  );
+  ctx.fillText(network.sizes.join("→"), x + PANEL_WIDTH - 8, y + 28);
+
+  // Rolling training loss
+  const chartTop = y + PANEL_HEIGHT - CHART_HEIGHT - 18;
+  const chartLeft = x + 8;
+  const chartWidth = PANEL_WIDTH - 16;
+  ctx.textAlign = "left";
+  ctx.fillText(
+    lossHistory.length > 0
+      ? `loss ${lossHistory[lossHistory.length - 1].toFixed(3)}`
+      : "loss: waiting for the first training run",
+    chartLeft,
+    chartTop - 4
+  );
+  ctx.strokeStyle = "rgba(255, 255, 255, 0.2)";
+  ctx.lineWidth = 1;
+  ctx.strokeRect(chartLeft, chartTop, chartWidth, CHART_HEIGHT);
+
+  if (lossHistory.length > 1) {
+    const highest = Math.max(1e-6, ...lossHistory);
+    ctx.strokeStyle = "#ffd93d";
+    ctx.beginPath();
+    lossHistory.forEach((loss, i) => {
+      const px = chartLeft + (chartWidth * i) / (lossHistory.length - 1);
+      const py = chartTop + CHART_HEIGHT - (CHART_HEIGHT * loss) / highest;
+      if (i === 0) ctx.moveTo(px, py);
+      else ctx.lineTo(px, py);
+    });
+    ctx.stroke();
+  }
+
+  ctx.restore();
+}
@@ -0,0 +1,139 @@
+import type { SerializedNetwork } from "../../types/gameTypes";
+import {
+  NeuralNetwork,
+  TrainingExample,
+  TrainingOptions,
+} from "./neuralNetwork";
+import {
+  HarnessOptions,
+  HarnessReport,
+  simulateRallies,
+} from "./pongSimulation";
+
+// Shuffling happens in the worker, so options can't carry a random function
+type WorkerTrainingOptions = Omit<TrainingOptions, "random">;
+
+// Either one training pass over examples, or a headless Pong session
+export type TrainingJob =
+  | {
+      type: "train";
+      examples: TrainingExample[];
+      options: WorkerTrainingOptions;
+    }
+  | { type: "simulate"; options: HarnessOptions };
+
+export interface TrainRequest {
+  id: number;
+  network: SerializedNetwork;
+  job: TrainingJob;
+}
+
+export interface TrainResult {
+  network: SerializedNetwork;
+  loss: number; // Mean cross-entropy over the last epoch
+  report?: HarnessReport; // How a simulated session went
+}
+
+export type TrainResponse =
+  | ({ id: number } & TrainResult)
+  | { id: number; error: string };
+
+export interface NetworkTrainer {
+  // Trains a copy and resolves with the new weights; the original is untouched
+  train: (
+    network: SerializedNetwork,
+    examples: TrainingExample[],
+    options?: WorkerTrainingOptions
+  ) => Promise<TrainResult>;
+  // Plays simulated rallies with a copy, learning as it goes
+  simulate: (
+    network: SerializedNetwork,
+    options?: HarnessOptions
+  ) => Promise<TrainResult>;
+  dispose: () => void;
+}
+
+// Runs a job on a copy of the network; the worker calls this too
+export function runTrainingJob(
+  network: SerializedNetwork,
+  job: TrainingJob
+): TrainResult {
+  const trained = NeuralNetwork.deserialize(network);
+  if (!trained) throw new Error("Network layers don't fit together");
+  if (job.type === "simulate") {
+    const report = simulateRallies(trained, job.options);
+    return { network: trained.serialize(), loss: report.loss, report };
+  }
+  const loss = trained.train(job.examples, job.options);
+  return { network: trained.serialize(), loss };
+}
+
+/*
+ * 🧵 Runs NeuralNetwork training in a Web Worker. Where workers aren't
+ * available (server render, old browsers) it trains on the main thread
+ * instead, still behind a promise so callers don't care which.
+ */
+export function createNetworkTrainer(): NetworkTrainer {
+  let worker: Worker | null = null;
+  try {
+    worker = new Worker(new URL("./networkTrainer.worker.ts", import.meta.url));
+  } catch {
+    worker = null;
+  }
+
+  let nextId = 0;
+  const pending = new Map<
+    number,
+    {
+      resolve: (result: TrainResult) => void;
+      reject: (e: Error) => void;
+    }
+  >();
+
+  if (worker) {
+    worker.onmessage = (event: MessageEvent<TrainResponse>) => {
+      const job = pending.get(event.data.id);
+      if (!job) return;
+      pending.delete(event.data.id);
+      if ("error" in event.data) job.reject(new Error(event.data.error));
+      else {
+        const { network, loss, report } = event.data;
+        job.resolve({ network, loss, report });
+      }
+    };
+    worker.onerror = () => {
+      pending.forEach((job) => job.reject(new Error("Trainer crashed")));
+      pending.clear();
+    };
+  }
+
+  const run = (
+    network: SerializedNetwork,
+    job: TrainingJob
+  ): Promise<TrainResult> => {
+    if (!worker) {
+      return Promise.resolve().then(() => runTrainingJob(network, job));
+    }
+    const id = nextId++;
+    const request: TrainRequest = { id, network, job };
+    return new Promise((resolve, reject) => {
+      pending.set(id, { resolve, reject });
+      worker?.postMessage(request);
+    });
+  };
+
+  return {
+    train: (network, examples, options = {}) =>
+      run(network, { type: "train", examples, options }),
+    simulate: (network, options = {}) =>
+      run(network, { type: "simulate", options }),
+    dispose: () => {
+      worker?.terminate();
+      worker = null;
+      pending.forEach((job) => job.reject(new Error("Trainer disposed")));
+      pending.clear();
+    },
+  };
+}
+
+export default createNetworkTrainer;
@@ -0,0 +1,17 @@
+import {
+  runTrainingJob,
+  type TrainRequest,
+  type TrainResponse,
+} from "./networkTrainer";
+
+// 🧵 Trains networks off the main thread so the game loop never waits on it
+self.onmessage = (event: MessageEvent<TrainRequest>) => {
+  const { id, network, job } = event.data;
+  let response: TrainResponse;
+  try {
+    response = { id, ...runTrainingJob(network, job) };
+  } catch (e) {
+    response = { id, error: e instanceof Error ? e.message : String(e) };
+  }
+  self.postMessage(response);
+};
@@ -0,0 +1,286 @@
+import type { SerializedNetwork } from "../../types/gameTypes";
+
+export interface TrainingExample {
+  input: number[]; // [ball_x, ball_y, ball_dx, ball_dy, paddle_y, opponent_y]
+  output: number[]; // [move_direction] -1, 0, 1
+  reward: number;
+}
+
+export interface TrainingOptions {
+  epochs?: number; // Passes over the examples
+  batchSize?: number; // Examples averaged into each weight update
+  decay?: number; // Learning rate falls as 1 / (1 + decay * updates so far)
+  minLearningRate?: number;
+  random?: () => number; // Shuffles the examples between epochs
+}
+
+// weights[from][to], so a layer's rows match the layer below it
+export interface Layer {
+  weights: number[][];
+  biases: number[];
+}
+
+const copyLayer = (layer: Layer): Layer => ({
+  weights: layer.weights.map((row) => [...row]),
+  biases: [...layer.biases],
+});
+
+// Feed-forward network: sigmoid hidden layers, softmax output
+export class NeuralNetwork {
+  private layers: Layer[];
+  private learningRate: number;
+  private updates: number;
+  private random: () => number;
+
+  // sizes is [inputs, ...hidden layers, outputs], e.g. [6, 8, 3].
+  // Pass the game's seeded random so the starting brain is replayable.
+  constructor(
+    sizes: number[],
+    random: () => number = Math.random,
+    learningRate = 0.05
+  ) {
+    this.learningRate = learningRate;
+    this.updates = 0;
+    this.random = random;
+    this.layers = sizes.slice(1).map((size, i) => ({
+      weights: this.randomMatrix(sizes[i], size),
+      biases: this.randomArray(size),
+    }));
+  }
+
+  // Live view of the weights for drawing; copy with serialize() to keep them
+  get weights(): ReadonlyArray<Readonly<Layer>> {
+    return this.layers;
+  }
+
+  get sizes(): number[] {
+    return [
+      this.layers[0].weights.length,
+      ...this.layers.map((layer) => layer.biases.length),
+    ];
+  }
+
+  // Plain-JSON copy of the weights, safe to keep while training goes on
+  serialize(): SerializedNetwork {
+    return {
+      version: 1,
+      learningRate: this.learningRate,
+      updates: this.updates,
+      layers: this.layers.map(copyLayer),
+    };
+  }
+
+  // Rebuilds a saved network, or null if its layers don't chain together
+  static deserialize(data: SerializedNetwork): NeuralNetwork | null {
+    const chains = data.layers.every(
+      (layer, i) =>
+        layer.weights.length > 0 &&
+        (i === 0 ||
+          layer.weights.length === data.layers[i - 1].biases.length) &&
+        layer.weights.every((row) => row.length === layer.biases.length)
+    );
+    if (data.layers.length === 0 || !chains) return null;
+
+    const network = new NeuralNetwork([]);
+    network.layers = data.layers.map(copyLayer);
+    network.learningRate = data.learningRate;
+    network.updates = data.updates ?? 0;
+    return network;
+  }
+
+  private randomMatrix(rows: number, cols: number): number[][] {
+    return Array(rows)
+      .fill(0)
+      .map(() =>
+        Array(cols)
+          .fill(0)
+          .map(() => (this.random() - 0.5) * 2)
+      );
+  }
+
+  private randomArray(size: number): number[] {
+    return Array(size)
+      .fill(0)
+      .map(() => (this.random() - 0.5) * 2);
+  }
+
+  private sigmoid(x: number): number {
+    // Clamp x to prevent overflow
+    const clampedX = Math.max(-500, Math.min(500, x));
+    return 1 / (1 + Math.exp(-clampedX));
+  }
+
+  private softmax(arr: number[]): number[] {
+    const max = Math.max(...arr);
+    const exp = arr.map((x) => {
+      const clampedX = Math.max(-500, Math.min(500, x - max));
+      return Math.exp(clampedX);
+    });
+    const sum = exp.reduce((a, b) => a + b, 0);
+
+    // Prevent division by zero
+    if (sum === 0 || !isFinite(sum)) {
+      return arr.map(() => 1 / arr.length);
+    }
+
+    return exp.map((x) => x / sum);
+  }
+
+  // Every layer's output, input first and softmax probabilities last
+  activate(input: number[]): number[][] {
+    const activations = [input];
+    this.layers.forEach((layer, l) => {
+      const below = activations[l];
+      const sums = layer.biases.map((bias, k) =>
+        below.reduce((acc, a, j) => acc + a * layer.weights[j][k], bias)
+      );
+      activations.push(
+        l === this.layers.length - 1
+          ? this.softmax(sums)
+          : sums.map((sum) => this.sigmoid(sum))
+      );
+    });
+    return activations;
+  }
+
+  predict(input: number[]): number[] {
+    const activations = this.activate(input);
+    return activations[activations.length - 1];
+  }
+
+  // Learning rate for the next update (inverse-time decay)
+  currentLearningRate(decay = 0.01, minLearningRate = 0.001): number {
+    return Math.max(
+      minLearningRate,
+      this.learningRate / (1 + decay * this.updates)
+    );
+  }
+
+  // Mini-batch gradient descent with full backpropagation. Each example's
+  // reward scales its gradient, so bad outcomes push away from the move made.
+  // Returns the mean cross-entropy loss over the last epoch.
+  train(examples: TrainingExample[], options: TrainingOptions = {}): number {
+    const {
+      epochs = 1,
+      batchSize = 8,
+      decay = 0.01,
+      minLearningRate = 0.001,
+      random = Math.random,
+    } = options;
+
+    let loss = 0;
+    for (let epoch = 0; epoch < epochs; epoch++) {
+      loss = 0;
+      // Fisher-Yates shuffle so batches differ between epochs
+      const order = examples.map((_, i) => i);
+      for (let i = order.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [order[i], order[j]] = [order[j], order[i]];
+      }
+
+      for (let start = 0; start < order.length; start += batchSize) {
+        const batch = order
+          .slice(start, start + batchSize)
+          .map((i) => examples[i]);
+        const gradients = this.layers.map((layer) => ({
+          weights: layer.weights.map((row) => row.map(() => 0)),
+          biases: layer.biases.map(() => 0),
+        }));
+        batch.forEach((example) => {
+          loss += this.backpropagate(example, gradients);
+        });
+
+        const rate =
+          this.currentLearningRate(decay, minLearningRate) / batch.length;
+        this.layers.forEach((layer, l) => {
+          layer.weights.forEach((row, j) =>
+            row.forEach((_, k) => {
+              row[k] -= rate * gradients[l].weights[j][k];
+            })
+          );
+          layer.biases.forEach((_, k) => {
+            layer.biases[k] -= rate * gradients[l].biases[k];
+          });
+        });
+        this.updates++;
+      }
+    }
+    return examples.length > 0 ? loss / examples.length : 0;
+  }
+
+  // Adds one example's gradients to the running totals; returns its loss
+  private backpropagate(example: TrainingExample, gradients: Layer[]): number {
+    const activations = this.activate(example.input);
+    const output = activations[activations.length - 1];
+    const target = example.output.indexOf(Math.max(...example.output));
+
+    // Softmax with cross-entropy: the output error is prediction - target
+    let delta = output.map((p, k) => (p - example.output[k]) * example.reward);
+
+    for (let l = this.layers.length - 1; l >= 0; l--) {
+      const below = activations[l];
+      const { weights } = this.layers[l];
+      below.forEach((a, j) =>
+        delta.forEach((d, k) => {
+          gradients[l].weights[j][k] += a * d;
+        })
+      );
+      delta.forEach((d, k) => {
+        gradients[l].biases[k] += d;
+      });
+
+      // Back through the sigmoid below: σ'(x) = a(1 - a)
+      if (l > 0) {
+        const current = delta;
+        delta = below.map(
+          (a, j) =>
+            a *
+            (1 - a) *
+            weights[j].reduce((acc, w, k) => acc + w * current[k], 0)
+        );
+      }
+    }
+
+    return -Math.log(Math.max(output[target], 1e-12));
+  }
+
+  getConfidence(
+    input: number[],
+    roundNumber: number = 1,
+    time: number = Date.now()
+  ): number {
+    const output = this.predict(input);
+
+    // Check for NaN or invalid values
+    if (output.some((val) => !isFinite(val))) {
+      return 0.2; // Stable low confidence for invalid output
+    }
+
+    const sortedOutput = [...output].sort((a, b) => b - a);
+    const max = sortedOutput[0];
+    const secondMax = sortedOutput[1];
+
+    // Calculate base confidence based on how much the max exceeds the second max
+    const separation = max - secondMax;
+    const baseConfidence = Math.max(
+      0.15,
+      Math.min(0.25, separation * 3 + 0.18)
+    );
+
+    // NEURAL EVOLUTION: AI gets smarter each round! 🧠⚡
+    const roundBonus = Math.min(0.45, (roundNumber - 1) * 0.05); // +5% per round, max 45%
+    const evolutionConfidence = baseConfidence + roundBonus;
+
+    // Add subtle learning variations for dramatic effect
+    const learningVariation = Math.sin(time * 0.0005) * 0.02;
+
+    const finalConfidence = Math.max(
+      0.15,
+      Math.min(0.85, evolutionConfidence + learningVariation)
+    );
+
+    return isFinite(finalConfidence) ? finalConfidence : 0.2;
+  }
+}
+
+export default NeuralNetwork;
@@ -0,0 +1,658 @@
+import { DEFAULT_STEP_MS, SerializedNetwork } from "../../types/gameTypes";
+import { createSeededRandom } from "./gameSession";
+import {
+  NeuralNetwork,
+  TrainingExample,
+  TrainingOptions,
+} from "./neuralNetwork";
+import type { DecisionPath } from "./networkInspector";
+
+/*
+ * 🏓 The rules of Neural Pong with no canvas, React or clock attached: court
+ * sizes, ball and paddle physics, the AI's decision making and a headless
+ * harness that plays AI-vs-script rallies as fast as the CPU allows.
+ * NeuralPongGame layers lasers, power-ups and particles on top of these.
+ */
+
+export const CANVAS_WIDTH = 800;
+export const CANVAS_HEIGHT = 600;
+export const PADDLE_WIDTH = 20;
+export const PADDLE_HEIGHT = 100;
+export const BALL_SIZE = 15;
+export const PADDLE_SPEED = 8;
+export const BALL_SPEED = 6;
+
+// The network sees 6 numbers (ball, paddles) and picks up, stay or down
+export const NETWORK_INPUTS = 6;
+export const NETWORK_OUTPUTS = 3;
+
+// How fast the AI paddle may move, relative to the player's
+export const AI_SPEED_SCALE: Record<string, number> = {
+  easy: 0.75,
+  normal: 1,
+  hard: 1.25,
+  veteran: 1.25,
+};
+
+// Hidden layer sizes of a fresh network; saved brains bring their own
+export const HIDDEN_LAYERS: Record<string, number[]> = {
+  easy: [6],
+  normal: [8],
+  hard: [12, 8],
+  veteran: [12, 8],
+};
+
+export interface CourtBall {
+  x: number;
+  y: number;
+  dx: number;
+  dy: number;
+  speed: number;
+  baseSpeed: number;
+  size: number;
+}
+
+// The slice of the game state the AI and the core physics read. The right
+// paddle ("ai") is the network's; the left ("player") is whoever it plays.
+export interface Court {
+  ball: CourtBall;
+  ai: { y: number; speed: number; energy: number; network: NeuralNetwork };
+  player: { y: number };
+  roundNumber: number;
+}
+
+// What the network decided for one paddle this step
+export interface AIDecision {
+  input: number[];
+  path: DecisionPath;
+  targetY: number;
+  confidence: number;
+  movement: number;
+  prediction: number[];
+  shouldFireLaser: boolean;
+  laserStrategy: string;
+  evolutionLevel: number;
+}
+
+export type RallyOutcome = "hit" | "miss" | "score" | "concede";
+
+// A saved network this game can use: right input and output sizes
+export const loadNetwork = (data: SerializedNetwork): NeuralNetwork | null => {
+  const network = NeuralNetwork.deserialize(data);
+  const sizes = network?.sizes ?? [];
+  return sizes[0] === NETWORK_INPUTS &&
+    sizes[sizes.length - 1] === NETWORK_OUTPUTS
+    ? network
+    : null;
+};
+
+// The court as the network sees it, every value roughly in [-1, 1]
+export const networkInput = ({ ball, ai, player }: Court): number[] => [
+  ball.x / CANVAS_WIDTH, // Normalized ball X
+  ball.y / CANVAS_HEIGHT, // Normalized ball Y
+  ball.dx / BALL_SPEED, // Normalized ball velocity X
+  ball.dy / BALL_SPEED, // Normalized ball velocity Y
+  ai.y / CANVAS_HEIGHT, // Normalized AI paddle Y
+  player.y / CANVAS_HEIGHT, // Normalized player paddle Y
+];
+
+// One lesson for the network: what it saw, the move it made and how that went
+export const trainingExample = (
+  court: Court,
+  aiAction: number,
+  outcome: RallyOutcome
+): TrainingExample => {
+  const output = [0, 0, 0];
+  output[aiAction + 1] = 1; // Convert -1,0,1 to 0,1,2 index
+
+  let reward = 0;
+  switch (outcome) {
+    case "hit":
+      reward = 1;
+      break;
+    case "score":
+      reward = 3;
+      break;
+    case "miss":
+      reward = -1;
+      break;
+    case "concede":
+      reward = -3;
+      break;
+  }
+
+  return { input: networkInput(court), output, reward };
+};
+
+// AI Decision Making with Neural Network. `random` and `now` come from the
+// game session (or the harness), so the same court always gets the same move.
+export function decideAIMove(
+  state: Court,
+  random: () => number,
+  now: number
+): AIDecision {
+  const { ball, ai } = state;
+
+  // Prepare input for neural network
+  const input = networkInput(state);
+
+  // Get neural network prediction with round-based intelligence growth
+  const prediction = ai.network.predict(input);
+  const confidence = ai.network.getConfidence(
+    input,
+    state.roundNumber || 1,
+    now
+  );
+
+  // Convert prediction to movement (-1: up, 0: stay, 1: down)
+  const moveIndex = prediction.indexOf(Math.max(...prediction));
+  let movement = moveIndex - 1; // Convert 0,1,2 to -1,0,1
+  let path: DecisionPath = "neural"; // Which logic had the last word
+
+  // FALLBACK STRATEGY: When neural network confidence is very low, use basic AI
+  if (confidence < 0.3) {
+    path = "tracking";
+    // Simple AI: follow the ball with some prediction
+    const ballCenterY = ball.y;
+    const aiCenterY = ai.y + PADDLE_HEIGHT / 2;
+
+    // Add some prediction based on ball direction
+    let predictedBallY = ballCenterY;
+    if (ball.dx > 0) {
+      // Ball moving toward AI
+      const timeToReach = (CANVAS_WIDTH - ball.x) / Math.abs(ball.dx);
+      predictedBallY = ball.y + ball.dy * timeToReach;
+    }
+
+    const predictedDifference = predictedBallY - aiCenterY;
+
+    if (Math.abs(predictedDifference) < 20) {
+      movement = 0; // Stay
+    } else if (predictedDifference > 0) {
+      movement = 1; // Move down
+    } else {
+      movement = -1; // Move up
+    }
+  } else {
+    // NEURAL NETWORK with ENHANCED BALL TRACKING for higher confidence
+    const aiCenterY = ai.y + PADDLE_HEIGHT / 2;
+    const centerY = CANVAS_HEIGHT / 2;
+    const distanceFromCenter = aiCenterY - centerY;
+
+    // At higher confidence levels, blend neural network with simple ball tracking
+    if (confidence > 0.6) {
+      // High confidence: Use hybrid approach - neural network + ball tracking
+      path = "hybrid";
+      const ballCenterY = ball.y;
+      const ballToAiDistance = ballCenterY - aiCenterY;
+
+      // Simple ball following logic for reliability
+      if (Math.abs(ballToAiDistance) > 25) {
+        if (ballToAiDistance > 0) {
+          movement = 1; // Move down toward ball
+        } else {
+          movement = -1; // Move up toward ball
+        }
+      } else {
+        movement = 0; // Stay put when close to ball
+      }
+
+      // Add some neural network influence (30%) with ball tracking (70%)
+      if (random() < 0.3) {
+        // Occasionally use neural network decision
+        movement = moveIndex - 1;
+        path = "neural";
+      }
+    } else {
+      // Medium confidence (40%-70%): Enhanced ball tracking with center bias
+      const ballCenterY = ball.y;
+
+      // IMPROVED: More aggressive ball tracking for 40%-70% confidence range
+      if (confidence >= 0.4 && confidence <= 0.7) {
+        // Enhanced ball tracking with predictive movement
+        path = "hybrid";
+        let predictedBallY = ballCenterY;
+        if (ball.dx > 0) {
+          // Ball moving toward AI - predict where it will be
+          const timeToReach = Math.max(
+            1,
+            (CANVAS_WIDTH - ball.x) / Math.abs(ball.dx)
+          );
+          predictedBallY = ball.y + ball.dy * Math.min(timeToReach, 30);
+        }
+
+        const predictedDistance = predictedBallY - aiCenterY;
+
+        // Primary ball tracking (80% weight)
+        if (Math.abs(predictedDistance) > 15) {
+          movement = predictedDistance > 0 ? 1 : -1;
+        } else {
+          movement = 0; // Stay when close to predicted position
+        }
+
+        // Center bias correction (20% weight) - helps with positioning
+        if (Math.abs(distanceFromCenter) > 100 && random() < 0.2) {
+          const centerMovement = distanceFromCenter > 0 ? -1 : 1;
+          // Blend with ball tracking
+          movement = random() < 0.7 ? movement : centerMovement;
+        }
+      } else {
+        // Lower confidence: Pure neural network with bias correction
+        movement = moveIndex - 1;
+
+        // Strong bias correction when AI is too far from center
+        if (Math.abs(distanceFromCenter) > 120) {
+          const biasCorrectionChance = Math.min(
+            0.4,
+            Math.abs(distanceFromCenter) / 200
+          );
+          if (random() < biasCorrectionChance) {
+            // Override neural network with center-seeking behavior
+            movement = distanceFromCenter > 0 ? -1 : 1;
+            path = "boundary";
+          }
+        }
+      }
+
+      // Extra protection against upward obsession
+      if (ai.y < 80 && movement === -1) {
+        // Too close to top and trying to go up - force downward!
+        movement = random() < 0.7 ? 1 : 0; // 70% chance to go down, 30% to stay
+        path = "boundary";
+      }
+    }
+  }
+
+  // Add some randomness when confidence is low (exploration)
+  if (confidence < 0.6 && random() < 0.05) {
+    movement = Math.floor(random() * 3) - 1;
+  }
+
+  // Calculate target Y position
+  let targetY = ai.y;
+  if (movement === -1) targetY -= ai.speed;
+  else if (movement === 1) targetY += ai.speed;
+
+  // Enhanced AI boundary avoidance with STRONG anti-upward-obsession measures
+  const centerY = CANVAS_HEIGHT / 2;
+  const aiCenterY = ai.y + PADDLE_HEIGHT / 2;
+  const distanceFromTop = ai.y;
+  const distanceFromBottom = CANVAS_HEIGHT - (ai.y + PADDLE_HEIGHT);
+  const boundaryMargin = 50; // Increased margin even more
+
+  // AGGRESSIVE boundary repulsion - the paddle MUST learn about down!
+  if (distanceFromTop < boundaryMargin) {
+    // Too close to top - MANDATORY downward movement
+    const repulsionForce = (boundaryMargin - distanceFromTop) / boundaryMargin;
+    movement = 1; // FORCE downward - no exceptions!
+    path = "boundary";
+    targetY = ai.y + ai.speed * (1 + repulsionForce * 2); // Extra strong push
+  } else if (distanceFromBottom < boundaryMargin) {
+    // Too close to bottom - force upward with center bias
+    const repulsionForce =
+      (boundaryMargin - distanceFromBottom) / boundaryMargin;
+    movement = -1; // Force upward
+    path = "boundary";
+    targetY = ai.y - ai.speed * (1 + repulsionForce);
+  } else if (confidence > 0.35) {
+    // For medium-high confidence AI, add center-seeking with downward bias
+    const centerBias = (aiCenterY - centerY) / 150;
+    const seekCenterChance = Math.min(0.15, confidence * 0.2);
+
+    if (Math.abs(centerBias) > 0.8 && random() < seekCenterChance) {
+      // Seek center, but with extra downward bias if in upper half
+      if (aiCenterY < centerY - 50) {
+        // Upper half - STRONG downward bias
+        movement = random() < 0.8 ? 1 : 0; // 80% chance to go down
+      } else if (aiCenterY > centerY + 50) {
+        // Lower half - normal upward movement
+        movement = random() < 0.6 ? -1 : 0; // 60% chance to go up
+      }
+      targetY = ai.y + movement * ai.speed * 0.8;
+      path = "boundary";
+    }
+  }
+
+  // EMERGENCY upward obsession intervention
+  if (ai.y < 60 && movement === -1) {
+    // ABSOLUTELY NO GOING UP when too high!
+    movement = 1; // Mandatory downward
+    path = "boundary";
+    targetY = ai.y + ai.speed * 1.5; // Strong push down
+  }
+
+  // Final bounds check with VERY aggressive boundary prevention
+  targetY = Math.max(10, Math.min(CANVAS_HEIGHT - PADDLE_HEIGHT - 10, targetY));
+
+  // 🤖 AI LASER STRATEGY: Growing intelligence & tactical awareness
+  const roundNumber = state.roundNumber || 1;
+  const aiEvolutionLevel = Math.min(0.9, (roundNumber - 1) * 0.08); // Grows to 90% by round 12
+
+  let shouldFireLaser = false;
+  let laserStrategy = "charge";
+
+  // AI gets more aggressive with laser usage as rounds progress
+  if (confidence > 0.3 && ai.energy > 20) {
+    const laserProbability = aiEvolutionLevel * 0.15; // Up to 15% chance per frame when evolved
+
+    if (random() < laserProbability) {
+      shouldFireLaser = true;
+
+      // AI develops different strategies based on evolution level
+      if (aiEvolutionLevel > 0.6) {
+        // Advanced AI: Strategic intent based on ball position
+        const ballDistanceFromCenter = Math.abs(ball.y - CANVAS_HEIGHT / 2);
+        const ballSpeed = Math.sqrt(ball.dx * ball.dx + ball.dy * ball.dy);
+
+        if (ballSpeed > 8 && ball.dx < 0) {
+          laserStrategy = "intercept"; // Try to intercept fast incoming balls
+        } else if (ball.dx > 0 && ballDistanceFromCenter < 100) {
+          laserStrategy = "boost"; // Boost ball when it's moving away and centered
+        } else {
+          laserStrategy = "charge"; // Default charging strategy
+        }
+      } else if (aiEvolutionLevel > 0.3) {
+        // Intermediate AI: Random between charge and boost
+        laserStrategy = random() < 0.6 ? "charge" : "boost";
+      }
+      // Basic AI only uses charge strategy
+    }
+  }
+
+  return {
+    input,
+    path,
+    targetY,
+    confidence,
+    movement,
+    prediction,
+    shouldFireLaser,
+    laserStrategy,
+    evolutionLevel: aiEvolutionLevel,
+  };
+}
+
+/* ⚙️ Physics */
+
+export const clampPaddle = (y: number): number =>
+  Math.max(0, Math.min(CANVAS_HEIGHT - PADDLE_HEIGHT, y));
+
+// Moves a paddle toward targetY, at most maxMove pixels this step
+export const stepPaddleToward = (
+  y: number,
+  targetY: number,
+  maxMove: number
+): number => {
+  const target = clampPaddle(targetY);
+  return Math.abs(target - y) > maxMove
+    ? y + Math.sign(target - y) * maxMove
+    : target;
+};
+
+// Flips the ball off the top or bottom wall; true if it hit one
+export function bounceOffWalls(ball: CourtBall): boolean {
+  if (ball.y > ball.size / 2 && ball.y < CANVAS_HEIGHT - ball.size / 2) {
+    return false;
+  }
+  ball.dy = -ball.dy;
+  ball.y = Math.max(
+    ball.size / 2,
+    Math.min(CANVAS_HEIGHT - ball.size / 2, ball.y)
+  );
+  return true;
+}
+
+// Is the ball coming in against the left paddle's face?
+export const hitsLeftPaddle = (ball: CourtBall, paddleY: number): boolean =>
+  ball.x <= PADDLE_WIDTH + ball.size / 2 &&
+  ball.y >= paddleY &&
+  ball.y <= paddleY + PADDLE_HEIGHT &&
+  ball.dx < 0;
+
+// Same for the right paddle, whose edges can stretch (see the glitch zone)
+export const hitsRightPaddle = (
+  ball: CourtBall,
+  paddleX: number,
+  paddleY: number,
+  paddleHeight = PADDLE_HEIGHT
+): boolean =>
+  ball.x >= paddleX - ball.size / 2 &&
+  ball.y >= paddleY &&
+  ball.y <= paddleY + paddleHeight &&
+  ball.dx > 0;
+
+// Sends the ball back toward `direction` (1 is right); the further from the
+// paddle's middle it hit, the steeper it leaves
+export function deflectOffPaddle(
+  ball: CourtBall,
+  paddleY: number,
+  paddleHeight: number,
+  direction: 1 | -1
+): void {
+  ball.dx = direction * Math.abs(ball.dx);
+  const relativeIntersectY =
+    (ball.y - (paddleY + paddleHeight / 2)) / (paddleHeight / 2);
+  ball.dy = relativeIntersectY * BALL_SPEED * 0.8;
+}
+
+// Serves from the middle toward `direction`, 10% faster every round
+export function serveBall(
+  ball: CourtBall,
+  roundNumber: number,
+  direction: 1 | -1,
+  random: () => number
+): void {
+  ball.baseSpeed = BALL_SPEED * (1 + (roundNumber - 1) * 0.1);
+  ball.x = CANVAS_WIDTH / 2;
+  ball.y = CANVAS_HEIGHT / 2;
+  ball.dx = direction * ball.baseSpeed;
+  ball.dy = (random() - 0.5) * ball.baseSpeed;
+  ball.speed = ball.baseSpeed;
+  ball.size = BALL_SIZE;
+}
+
+/* 🏋️ Headless training harness */
+
+export interface HarnessOptions {
+  rallies?: number; // Points to play
+  seed?: number; // Same seed, same network and options: same result
+  speedScale?: number; // The AI paddle's speed, as in AI_SPEED_SCALE
+  opponentSlip?: number; // Chance per step the scripted opponent freezes
+  maxRallySteps?: number; // A rally this long is called off with no point
+  trainingWindow?: number; // Latest examples each training run replays
+  training?: Omit<TrainingOptions, "random">;
+  coachEvery?: number; // Steps between lessons from the coach (see coachedMove); 0 is no coach
+}
+
+export interface HarnessReport {
+  rallies: number;
+  aiPoints: number;
+  opponentPoints: number;
+  hits: number; // Returns by the AI paddle
+  longestRally: number;
+  loss: number; // Mean cross-entropy of the last training run
+}
+
+const POINTS_TO_WIN = 11;
+
+// Where the ball will reach the right paddle's face, bouncing off the walls
+// on the way (unfolded, the path is a straight line); mid-court while it's
+// heading away
+function predictInterceptY(ball: CourtBall): number {
+  if (ball.dx <= 0) return CANVAS_HEIGHT / 2;
+  const top = ball.size / 2;
+  const span = CANVAS_HEIGHT - ball.size;
+  const steps = (CANVAS_WIDTH - PADDLE_WIDTH - ball.x) / ball.dx;
+  const travel = ball.y - top + ball.dy * steps;
+  const unfolded = ((travel % (2 * span)) + 2 * span) % (2 * span);
+  return top + (unfolded > span ? 2 * span - unfolded : unfolded);
+}
+
+// The coach's lesson: the move (-1, 0, 1) that lines the paddle up with
+// where the ball will arrive
+function coachedMove(court: Court): number {
+  const gap = predictInterceptY(court.ball) - (court.ai.y + PADDLE_HEIGHT / 2);
+  return Math.abs(gap) < 15 ? 0 : Math.sign(gap);
+}
+
+/*
+ * Plays `rallies` points of network-vs-script Pong at full speed with the
+ * game's own physics and AI, training `network` in place after every point
+ * the way the live game does. No lasers or power-ups: just the rally. The
+ * scripted opponent follows the ball with a dead zone and the odd slip.
+ * With `coachEvery`, the network also learns from a coach that knows where
+ * the ball will arrive, which is how the Veteran brain was trained.
+ */
+export function simulateRallies(
+  network: NeuralNetwork,
+  options: HarnessOptions = {}
+): HarnessReport {
+  const {
+    rallies = 1000,
+    seed = 1,
+    speedScale = 1,
+    opponentSlip = 0.1,
+    maxRallySteps = 3000,
+    trainingWindow = 64,
+    training = {},
+    coachEvery = 0,
+  } = options;
+  const random = createSeededRandom(seed);
+  const court: Court = {
+    ball: {
+      x: 0,
+      y: 0,
+      dx: 0,
+      dy: 0,
+      speed: BALL_SPEED,
+      baseSpeed: BALL_SPEED,
+      size: BALL_SIZE,
+    },
+    ai: {
+      y: CANVAS_HEIGHT / 2 - PADDLE_HEIGHT / 2,
+      speed: PADDLE_SPEED * 0.9 * speedScale,
+      energy: 100,
+      network,
+    },
+    player: { y: CANVAS_HEIGHT / 2 - PADDLE_HEIGHT / 2 },
+    roundNumber: 1,
+  };
+  const report: HarnessReport = {
+    rallies: 0,
+    aiPoints: 0,
+    opponentPoints: 0,
+    hits: 0,
+    longestRally: 0,
+    loss: 0,
+  };
+  let examples: TrainingExample[] = [];
+  let score = [0, 0];
+  let now = 0;
+
+  serveBall(court.ball, 1, random() > 0.5 ? 1 : -1, random);
+  while (report.rallies < rallies) {
+    const { ball } = court;
+    let rally = 0;
+    let winner: "ai" | "opponent" | null = null;
+
+    for (let step = 0; step < maxRallySteps && !winner; step++) {
+      now += DEFAULT_STEP_MS;
+
+      // Scripted opponent on the left
+      if (random() >= opponentSlip) {
+        const gap = ball.y - (court.player.y + PADDLE_HEIGHT / 2);
+        if (Math.abs(gap) > 20) {
+          court.player.y = clampPaddle(
+            court.player.y + Math.sign(gap) * PADDLE_SPEED
+          );
+        }
+      }
+
+      // The network on the right
+      const decision = decideAIMove(court, random, now);
+      if (coachEvery > 0 && step % coachEvery === 0) {
+        const lesson = coachedMove(court);
+        examples.push({
+          input: networkInput(court),
+          output: [-1, 0, 1].map((move) => (move === lesson ? 1 : 0)),
+          reward: 1,
+        });
+      }
+      court.ai.y = stepPaddleToward(
+        court.ai.y,
+        decision.targetY,
+        PADDLE_SPEED * speedScale
+      );
+
+      ball.x += ball.dx;
+      ball.y += ball.dy;
+      bounceOffWalls(ball);
+
+      if (hitsLeftPaddle(ball, court.player.y)) {
+        deflectOffPaddle(ball, court.player.y, PADDLE_HEIGHT, 1);
+        rally++;
+      }
+      if (hitsRightPaddle(ball, CANVAS_WIDTH - PADDLE_WIDTH, court.ai.y)) {
+        deflectOffPaddle(ball, court.ai.y, PADDLE_HEIGHT, -1);
+        rally++;
+        report.hits++;
+        examples.push(trainingExample(court, decision.movement, "hit"));
+      }
+
+      if (ball.x < 0) {
+        winner = "ai";
+        examples.push(trainingExample(court, decision.movement, "score"));
+      } else if (ball.x > CANVAS_WIDTH) {
+        winner = "opponent";
+        examples.push(trainingExample(court, decision.movement, "concede"));
+      }
+    }
+
+    report.rallies++;
+    report.longestRally = Math.max(report.longestRally, rally);
+    if (winner === "ai") report.aiPoints++;
+    if (winner === "opponent") report.opponentPoints++;
+
+    // A new game once someone reaches 11, so the ball speed starts over
+    if (winner) {
+      score =
+        winner === "ai" ? [score[0], score[1] + 1] : [score[0] + 1, score[1]];
+      court.roundNumber++;
+    }
+    if (Math.max(...score) >= POINTS_TO_WIN) {
+      score = [0, 0];
+      court.roundNumber = 1;
+    }
+    serveBall(court.ball, court.roundNumber, winner === "ai" ? 1 : -1, random);
+
+    examples = examples.slice(-trainingWindow);
+    if (winner && examples.length >= 10) {
+      report.loss = network.train(examples, { ...training, random });
+    }
+  }
+
+  return report;
+}
+
+/*
+ * The Veteran difficulty's starting brain (veteranBrain.json) is the
+ * network this returns. Both seeds are fixed, so it always comes out the
+ * same; regenerate the file from it if the physics or the AI change.
+ */
+export const VETERAN_HARNESS: HarnessOptions = {
+  rallies: 1000,
+  seed: 2024,
+  speedScale: AI_SPEED_SCALE.veteran,
+  trainingWindow: 256,
+  coachEvery: 2,
+  training: { epochs: 4, batchSize: 8, decay: 0.01, minLearningRate: 0.005 },
+};
+
+export function trainVeteranNetwork(): NeuralNetwork {
+  const network = new NeuralNetwork(
+    [NETWORK_INPUTS, ...HIDDEN_LAYERS.veteran, NETWORK_OUTPUTS],
+    createSeededRandom(1)
+  );
+  simulateRallies(network, VETERAN_HARNESS);
+  return network;
+}
@@ -0,0 +1,210 @@
+/*
+ * 🔮 Quantum Tetris rules with no canvas or React attached: the board, the
+ * tetrominoes, pieces held in superposition between two shapes, and how
+ * they collapse, lock and clear lines.
+ */
+
+export type TetrominoKind = "I" | "O" | "T" | "S" | "Z" | "J" | "L";
+
+// Rows of cells, top first; null is empty
+export type Board = (TetrominoKind | null)[][];
+
+export interface QuantumPiece {
+  kinds: [TetrominoKind, TetrominoKind]; // The two shapes it might be
+  chance: number; // Probability (0-1) it collapses into kinds[0]
+  observed: TetrominoKind | null; // The shape it collapsed into, once it has
+  rotation: number; // Clockwise quarter turns, 0-3
+  x: number; // Top-left of its box on the board
+  y: number;
+}
+
+export const BOARD_COLS = 10;
+export const BOARD_ROWS = 20;
+export const LINES_PER_LEVEL = 10;
+export const MARATHON_LINES = 150; // Clear this many to win the run
+const SPAWN_X = 3; // Left of a new piece's box, centering it
+
+export const KINDS: TetrominoKind[] = ["I", "O", "T", "S", "Z", "J", "L"];
+
+// Cells in a size × size box at rotation 0
+// prettier-ignore
+const SHAPES: Record<TetrominoKind, { size: number; cells: number[][] }> = {
+  I: { size: 4, cells: [[0, 1], [1, 1], [2, 1], [3, 1]] },
+  O: { size: 2, cells: [[0, 0], [1, 0], [0, 1], [1, 1]] },
+  T: { size: 3, cells: [[1, 0], [0, 1], [1, 1], [2, 1]] },
+  S: { size: 3, cells: [[1, 0], [2, 0], [0, 1], [1, 1]] },
+  Z: { size: 3, cells: [[0, 0], [1, 0], [1, 1], [2, 1]] },
+  J: { size: 3, cells: [[0, 0], [0, 1], [1, 1], [2, 1]] },
+  L: { size: 3, cells: [[2, 0], [0, 1], [1, 1], [2, 1]] },
+};
+
+export const KIND_COLORS: Record<TetrominoKind, string> = {
+  I: "#4ecdc4",
+  O: "#ffd93d",
+  T: "#a29bfe",
+  S: "#6ab04c",
+  Z: "#ff6b6b",
+  J: "#74b9ff",
+  L: "#ff9f43",
+};
+
+// Sideways nudges tried when a rotation doesn't fit where it is
+const WALL_KICKS = [0, -1, 1, -2, 2];
+
+// Points for clearing 1-4 lines at once, times the level
+const LINE_POINTS = [0, 100, 300, 500, 800];
+
+export const emptyBoard = (): Board =>
+  Array.from({ length: BOARD_ROWS }, () => Array(BOARD_COLS).fill(null));
+
+// Board cells a shape covers at a position and rotation
+export function shapeCells(
+  kind: TetrominoKind,
+  rotation: number,
+  x: number,
+  y: number
+): { x: number; y: number }[] {
+  const { size, cells } = SHAPES[kind];
+  return cells.map(([cx, cy]) => {
+    let [rx, ry] = [cx, cy];
+    for (let turn = 0; turn < ((rotation % 4) + 4) % 4; turn++) {
+      [rx, ry] = [size - 1 - ry, rx];
+    }
+    return { x: x + rx, y: y + ry };
+  });
+}
+
+// The shapes a piece could still be: both until it's observed
+export const possibleShapes = (piece: QuantumPiece): TetrominoKind[] =>
+  piece.observed ? [piece.observed] : piece.kinds;
+
+// A superposed piece only fits where both of its shapes would
+export function pieceFits(board: Board, piece: QuantumPiece): boolean {
+  return possibleShapes(piece).every((kind) =>
+    shapeCells(kind, piece.rotation, piece.x, piece.y).every(
+      (cell) =>
+        cell.x >= 0 &&
+        cell.x < BOARD_COLS &&
+        cell.y < BOARD_ROWS &&
+        (cell.y < 0 || board[cell.y][cell.x] === null)
+    )
+  );
+}
+
+// The piece moved by (dx, dy), or null if it doesn't fit there
+export function movePiece(
+  board: Board,
+  piece: QuantumPiece,
+  dx: number,
+  dy: number
+): QuantumPiece | null {
+  const moved = { ...piece, x: piece.x + dx, y: piece.y + dy };
+  return pieceFits(board, moved) ? moved : null;
+}
+
+// The piece turned a quarter clockwise, nudged sideways if it has to be
+export function rotatePiece(
+  board: Board,
+  piece: QuantumPiece
+): QuantumPiece | null {
+  for (const kick of WALL_KICKS) {
+    const turned = {
+      ...piece,
+      rotation: (piece.rotation + 1) % 4,
+      x: piece.x + kick,
+    };
+    if (pieceFits(board, turned)) return turned;
+  }
+  return null;
+}
+
+// Rows the piece would fall before landing
+export function dropDistance(board: Board, piece: QuantumPiece): number {
+  let distance = 0;
+  while (movePiece(board, piece, 0, distance + 1)) distance++;
+  return distance;
+}
+
+// A new piece at the top of the board, in superposition between `first`
+// and a second shape picked at random. The odds lean 30-70% either way.
+export function spawnPiece(
+  first: TetrominoKind,
+  random: () => number
+): QuantumPiece {
+  const others = KINDS.filter((kind) => kind !== first);
+  const second = others[Math.floor(random() * others.length)];
+  return {
+    kinds: [first, second],
+    chance: Math.round((0.3 + random() * 0.4) * 20) / 20,
+    observed: null,
+    rotation: 0,
+    x: SPAWN_X,
+    y: 0,
+  };
+}
+
+// Back to the spawn position, e.g. when it comes out of the hold slot
+export const respawn = (piece: QuantumPiece): QuantumPiece => ({
+  ...piece,
+  rotation: 0,
+  x: SPAWN_X,
+  y: 0,
+});
+
+// Measures the piece: it becomes one of its shapes, by its odds
+export function collapse(
+  piece: QuantumPiece,
+  random: () => number
+): QuantumPiece {
+  if (piece.observed) return piece;
+  return {
+    ...piece,
+    observed: random() < piece.chance ? piece.kinds[0] : piece.kinds[1],
+  };
+}
+
+// The next bag of all seven kinds, shuffled (Fisher-Yates)
+export function shuffledBag(random: () => number): TetrominoKind[] {
+  const bag = [...KINDS];
+  for (let i = bag.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [bag[i], bag[j]] = [bag[j], bag[i]];
+  }
+  return bag;
+}
+
+// Writes a piece into the board as the shape it collapsed into (the first
+// if it never did) and clears any full rows. A piece locking with any cell
+// above the board has topped out (lock out), which ends the run.
+export function lockPiece(
+  board: Board,
+  piece: QuantumPiece
+): { board: Board; lines: number; toppedOut: boolean } {
+  const kind = piece.observed ?? piece.kinds[0];
+  const next = board.map((row) => [...row]);
+  let toppedOut = false;
+  shapeCells(kind, piece.rotation, piece.x, piece.y).forEach((cell) => {
+    if (cell.y >= 0) next[cell.y][cell.x] = kind;
+    else toppedOut = true;
+  });
+
+  const kept = next.filter((row) => row.some((cell) => cell === null));
+  const lines = BOARD_ROWS - kept.length;
+  return {
+    board: [
+      ...Array.from({ length: lines }, () => Array(BOARD_COLS).fill(null)),
+      ...kept,
+    ],
+    lines,
+    toppedOut,
+  };
+}
+
+// Lines cleared by a piece the board had to measure itself (one the
+// player never observed) score double
+export const lineScore = (lines: number, level: number, unobserved: boolean) =>
+  LINE_POINTS[lines] * level * (unobserved ? 2 : 1);
+
+// Ms between gravity drops at a level
+export const gravityMs = (level: number) =>
+  Math.max(60, Math.round(1000 * Math.pow(0.85, level - 1)));
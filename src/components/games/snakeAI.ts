@@ -0,0 +1,547 @@
+import type {
+  AIBehavior,
+  AIGeneration,
+  AIPersonality,
+  AITraits,
+  GameStat,
+  GameWinner,
+  GridCell,
+} from "../../types/gameTypes";
+import { Arena, cellKey, estimateDistance, moveOnArena } from "./snakeLevels";
+
+/*
+ * 🐍 The Snake AI with no canvas or React attached: A* toward food,
+ * flood-fill checks that a move leaves room to live, the personalities that
+ * pick what each AI snake goes after, and the evolution that retunes their
+ * traits from how the player played the last round.
+ */
+
+// One snake as the others see it
+export interface BoardSnake {
+  body: GridCell[]; // Head first
+  direction: GridCell;
+}
+
+// Everything a snake looks at to pick its next move
+export interface SnakeBoard {
+  arena: Arena;
+  self: BoardSnake; // The snake moving: an AI, or the player for logPlayerMove
+  rivals: BoardSnake[]; // Every other snake still in the round
+  food: (GridCell & { value: number })[];
+}
+
+// What the player did during a round, counted per move
+export interface PlayerPatterns {
+  moves: number;
+  turns: number;
+  towardFood: number; // Moves that got closer to the nearest food
+  nearAI: number; // Moves ending within 5 cells of an AI's head
+  alongWalls: number; // Moves ending on the edge of the board
+}
+
+// How one round changed the AI, for the results screen
+export interface GenerationSummary {
+  from: AIGeneration;
+  to: AIGeneration;
+  notes: string[]; // Why the traits moved, in plain words
+}
+
+export const STARTING_GENERATION: AIGeneration = {
+  generation: 1,
+  traits: { aggression: 0.3, prediction: 0.5, adaptation: 0.2 },
+};
+
+// Names, colors (head, body) and how each personality shifts its
+// generation's traits
+export const PERSONALITIES: Record<
+  AIPersonality,
+  { label: string; colors: [string, string]; shift: Partial<AITraits> }
+> = {
+  hunter: {
+    label: "🎯 Hunter",
+    colors: ["#ff6b6b", "#ff5252"],
+    shift: { aggression: 0.35 },
+  },
+  coward: {
+    label: "🐇 Coward",
+    colors: ["#74b9ff", "#0984e3"],
+    shift: { aggression: -0.3, prediction: 0.2 },
+  },
+  hoarder: {
+    label: "💰 Hoarder",
+    colors: ["#a29bfe", "#6c5ce7"],
+    shift: {},
+  },
+  blocker: {
+    label: "🧱 Blocker",
+    colors: ["#ff9f43", "#e67e22"],
+    shift: { aggression: 0.2, prediction: 0.3 },
+  },
+};
+
+export const NO_PATTERNS: PlayerPatterns = {
+  moves: 0,
+  turns: 0,
+  towardFood: 0,
+  nearAI: 0,
+  alongWalls: 0,
+};
+
+const DIRECTIONS: GridCell[] = [
+  { x: 0, y: -1 }, // up
+  { x: 1, y: 0 }, // right
+  { x: 0, y: 1 }, // down
+  { x: -1, y: 0 }, // left
+];
+
+const MAX_LOOKAHEAD = 4; // Cells of a rival's path projected at full prediction
+
+const TRAIT_LABELS: [keyof AITraits, string][] = [
+  ["aggression", "AI Aggression"],
+  ["prediction", "AI Prediction"],
+  ["adaptation", "AI Adaptation"],
+];
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+const sameCell = (a: GridCell | null, b: GridCell) =>
+  !!a && a.x === b.x && a.y === b.y;
+
+const COWARD_BERTH = 2; // Cells a coward keeps between itself and any head
+
+const cellAt = (key: number, cols: number): GridCell => ({
+  x: key % cols,
+  y: Math.floor(key / cols),
+});
+
+// Distance to the closest food; Infinity when there's none
+const nearestFood = (arena: Arena, cell: GridCell, food: GridCell[]) =>
+  Math.min(...food.map((item) => estimateDistance(arena, cell, item)));
+
+/* 🗺️ Pathfinding */
+
+// Binary min-heap of [priority, cell key, cost] for the A* frontier
+class CellHeap {
+  private items: [number, number, number][] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(priority: number, key: number, cost: number): void {
+    const { items } = this;
+    items.push([priority, key, cost]);
+    for (let i = items.length - 1; i > 0; ) {
+      const parent = (i - 1) >> 1;
+      if (items[parent][0] <= items[i][0]) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): [number, number, number] {
+    const { items } = this;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      for (let i = 0; ; ) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left][0] < items[smallest][0]) {
+          smallest = left;
+        }
+        if (right < items.length && items[right][0] < items[smallest][0]) {
+          smallest = right;
+        }
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+/*
+ * A* over the arena, walking round wraparound edges and through portals.
+ * Returns the cells to walk through (start excluded, goal included), or null
+ * if the goal can't be reached. The goal itself may be in `blocked`.
+ */
+export function findPath(
+  start: GridCell,
+  goal: GridCell,
+  arena: Arena,
+  blocked: Set<number>
+): GridCell[] | null {
+  const { cols } = arena;
+  const startKey = cellKey(start, cols);
+  const goalKey = cellKey(goal, cols);
+  const cameFrom = new Map<number, number>();
+  const cost = new Map<number, number>([[startKey, 0]]);
+  // Cells waiting to be expanded and their best estimated totals. A cell
+  // that finds a cheaper route is pushed again; its older entry is skipped.
+  // Lowest estimated total first; among equals, the one closest to the goal.
+  // A cell that finds a cheaper route is pushed again and its older entry
+  // skipped when it comes up.
+  const priority = (cell: GridCell, cellCost: number) => {
+    const remaining = estimateDistance(arena, cell, goal);
+    return cellCost + remaining + remaining / 1024;
+  };
+  const frontier = new CellHeap();
+  frontier.push(priority(start, 0), startKey, 0);
+
+  while (frontier.size > 0) {
+    const [, currentKey, currentCost] = frontier.pop();
+    if (currentCost !== cost.get(currentKey)) continue;
+
+    if (currentKey === goalKey) {
+      const path: GridCell[] = [];
+      for (let key = goalKey; key !== startKey; ) {
+        path.unshift(cellAt(key, cols));
+        key = cameFrom.get(key) ?? startKey;
+      }
+      return path;
+    }
+
+    const current = cellAt(currentKey, cols);
+    const nextCost = currentCost + 1;
+    DIRECTIONS.forEach((direction) => {
+      const next = moveOnArena(arena, current, direction);
+      if (!next) return;
+      const key = cellKey(next, cols);
+      if (blocked.has(key) && key !== goalKey) return;
+      if (nextCost >= (cost.get(key) ?? Infinity)) return;
+      cameFrom.set(key, currentKey);
+      cost.set(key, nextCost);
+      frontier.push(priority(next, nextCost), key, nextCost);
+    });
+  }
+  return null;
+}
+
+// How many free cells can be reached from `start`, itself included;
+// stops counting at `limit`
+export function floodFill(
+  start: GridCell,
+  arena: Arena,
+  blocked: Set<number>,
+  limit = Infinity
+): number {
+  const seen = new Set<number>([cellKey(start, arena.cols)]);
+  const queue = [start];
+  for (let i = 0; i < queue.length && seen.size < limit; i++) {
+    DIRECTIONS.forEach((direction) => {
+      const next = moveOnArena(arena, queue[i], direction);
+      if (!next) return;
+      const key = cellKey(next, arena.cols);
+      if (blocked.has(key) || seen.has(key)) return;
+      seen.add(key);
+      queue.push(next);
+    });
+  }
+  return seen.size;
+}
+
+// Where a snake's head will be over the next `steps` moves if it keeps
+// going the same way, stopping at a wall
+function projectSnake(
+  arena: Arena,
+  snake: BoardSnake,
+  steps: number
+): GridCell[] {
+  const cells: GridCell[] = [];
+  let cell: GridCell | null = snake.body[0];
+  for (let i = 0; i < steps; i++) {
+    cell = moveOnArena(arena, cell, snake.direction);
+    if (!cell) break;
+    cells.push(cell);
+  }
+  return cells;
+}
+
+// Cells within `range` moves of `start`, walls and snakes ignored
+function cellsAround(arena: Arena, start: GridCell, range: number): GridCell[] {
+  let ring = [start];
+  const cells = [start];
+  for (let step = 0; step < range; step++) {
+    ring = ring.flatMap((cell) =>
+      DIRECTIONS.map((direction) => moveOnArena(arena, cell, direction)).filter(
+        (next): next is GridCell => !!next
+      )
+    );
+    cells.push(...ring);
+  }
+  return cells;
+}
+
+// A trait profile for a personality: its generation's traits, shifted
+export function behaviorFor(
+  personality: AIPersonality,
+  traits: AITraits
+): AIBehavior {
+  const { shift } = PERSONALITIES[personality];
+  return {
+    personality,
+    traits: {
+      aggression: clamp01(traits.aggression + (shift.aggression ?? 0)),
+      prediction: clamp01(traits.prediction + (shift.prediction ?? 0)),
+      adaptation: traits.adaptation,
+    },
+  };
+}
+
+/*
+ * Picks an AI snake's next direction. It walks the A* path to its goal and
+ * only takes the first step if that leaves enough room to survive;
+ * otherwise it heads for the most open cell. The goal depends on the
+ * personality:
+ * - hunter: the most worthwhile food (value for the distance; when timid it
+ *   leaves food a rival is closer to), or when it's bold and the nearest
+ *   rival is closer, the spot that rival is heading for
+ * - coward: only food no rival is closer to, giving every head a wide berth
+ * - hoarder: the richest food, whoever else wants it
+ * - blocker: the path the nearest rival would take to its food, at the
+ *   first cell it can reach before that rival does
+ */
+export function chooseSnakeMove(
+  board: SnakeBoard,
+  { personality, traits }: AIBehavior
+): GridCell {
+  const { arena, rivals } = board;
+  const { cols } = arena;
+  const head = board.self.body[0];
+
+  // Every body, tails included: a tail only moves once its head has
+  const blocked = new Set<number>();
+  [board.self, ...rivals].forEach((snake) =>
+    snake.body.forEach((cell) => blocked.add(cellKey(cell, cols)))
+  );
+
+  // Plan around where the rivals are about to be
+  const lookahead = Math.round(traits.prediction * MAX_LOOKAHEAD);
+  const projected = rivals.map((rival) =>
+    projectSnake(arena, rival, lookahead)
+  );
+  const avoid = new Set(blocked);
+  projected.flat().forEach((cell) => avoid.add(cellKey(cell, cols)));
+  if (personality === "coward") {
+    rivals.forEach((rival) =>
+      cellsAround(arena, rival.body[0], COWARD_BERTH).forEach((cell) =>
+        avoid.add(cellKey(cell, cols))
+      )
+    );
+  }
+
+  // Free cells left to move into after a step. A safe step leaves room
+  // for the whole body, or a bit less for a bold AI.
+  const needed = Math.ceil(board.self.body.length * (1.5 - traits.aggression));
+  const roomAfter = (step: GridCell, limit = Infinity) => {
+    const after = new Set(blocked);
+    after.add(cellKey(step, cols));
+    return floodFill(step, arena, after, limit) - 1;
+  };
+
+  const closest = (cell: GridCell) =>
+    Math.min(
+      Infinity,
+      ...rivals.map((rival) => estimateDistance(arena, rival.body[0], cell))
+    );
+  const worth = (item: SnakeBoard["food"][number]) => {
+    const mine = estimateDistance(arena, head, item);
+    const contested = closest(item) < mine;
+    if (personality === "hoarder") return item.value ** 2 / (mine + 1);
+    if (personality === "coward" && contested) return 0;
+    return (
+      (item.value / (mine + 1)) *
+      (contested && traits.aggression < 0.5 ? 0.5 : 1)
+    );
+  };
+  const targets = [...board.food]
+    .filter((item) => worth(item) > 0)
+    .sort((a, b) => worth(b) - worth(a));
+
+  // The rival whose head is nearest, and where it's heading
+  let nearest = -1;
+  rivals.forEach((rival, i) => {
+    if (
+      nearest < 0 ||
+      estimateDistance(arena, head, rival.body[0]) <
+        estimateDistance(arena, head, rivals[nearest].body[0])
+    ) {
+      nearest = i;
+    }
+  });
+  const goals: GridCell[] = [...targets];
+  if (personality === "hunter" && nearest >= 0) {
+    const path = projected[nearest];
+    const cutOff =
+      traits.aggression > 0.6 &&
+      path.length > 0 &&
+      targets.length > 0 &&
+      estimateDistance(arena, rivals[nearest].body[0], targets[0]) <
+        estimateDistance(arena, head, targets[0]);
+    if (cutOff) goals.unshift(path[path.length - 1]);
+  }
+  if (personality === "blocker" && nearest >= 0 && board.food.length > 0) {
+    const rivalHead = rivals[nearest].body[0];
+    const food = [...board.food].sort(
+      (a, b) =>
+        estimateDistance(arena, rivalHead, a) -
+        estimateDistance(arena, rivalHead, b)
+    )[0];
+    const route = findPath(rivalHead, food, arena, blocked) ?? [];
+    const gate = route.find(
+      (cell, i) => estimateDistance(arena, head, cell) <= i
+    );
+    if (gate) goals.unshift(gate);
+  }
+
+  for (const goal of goals) {
+    const path = findPath(head, goal, arena, avoid);
+    if (
+      path &&
+      path.length > 0 &&
+      !avoid.has(cellKey(path[0], cols)) &&
+      roomAfter(path[0], needed + 1) >= needed
+    ) {
+      const direction = DIRECTIONS.find((d) =>
+        sameCell(moveOnArena(arena, head, d), path[0])
+      );
+      if (direction) return direction;
+    }
+  }
+
+  // No safe path: survive first, keeping clear of the rivals' paths
+  let best = board.self.direction;
+  let bestRoom = -Infinity;
+  DIRECTIONS.forEach((direction) => {
+    const next = moveOnArena(arena, head, direction);
+    if (!next || blocked.has(cellKey(next, cols))) return;
+    const penalty = avoid.has(cellKey(next, cols)) ? board.self.body.length : 0;
+    const room = roomAfter(next) - penalty;
+    if (room > bestRoom) {
+      bestRoom = room;
+      best = direction;
+    }
+  });
+  return best;
+}
+
+/* 🧬 Learning from the player */
+
+// Adds one player move, made from `board` (before it happened, with the
+// player as `self`), to the log
+export function logPlayerMove(
+  patterns: PlayerPatterns,
+  board: SnakeBoard,
+  turned: boolean
+): PlayerPatterns {
+  const { arena, food, rivals } = board;
+  const from = board.self.body[0];
+  const to = moveOnArena(arena, from, board.self.direction) ?? from;
+  const onEdge =
+    to.x === 0 ||
+    to.y === 0 ||
+    to.x === arena.cols - 1 ||
+    to.y === arena.rows - 1;
+  return {
+    moves: patterns.moves + 1,
+    turns: patterns.turns + (turned ? 1 : 0),
+    towardFood:
+      patterns.towardFood +
+      (nearestFood(arena, to, food) < nearestFood(arena, from, food) ? 1 : 0),
+    nearAI:
+      patterns.nearAI +
+      (rivals.some((ai) => estimateDistance(arena, to, ai.body[0]) <= 5)
+        ? 1
+        : 0),
+    alongWalls: patterns.alongWalls + (onEdge ? 1 : 0),
+  };
+}
+
+/*
+ * Retunes the AI after a round. Each trait moves toward a target read from
+ * the player's patterns, as far as `adaptation` allows; losing a round makes
+ * the AI adapt faster next time and winning settles it.
+ */
+export function evolveAI(
+  current: AIGeneration,
+  patterns: PlayerPatterns,
+  winner: GameWinner
+): GenerationSummary {
+  const { traits } = current;
+  const moves = Math.max(1, patterns.moves);
+  const turnRate = patterns.turns / moves;
+  const foodFocus = patterns.towardFood / moves;
+  const closeness = patterns.nearAI / moves;
+  const wallHugging = patterns.alongWalls / moves;
+  const aiLost = winner === "player";
+  const aiWon = winner === "ai";
+  const notes: string[] = [];
+
+  // Straight-line players are worth projecting further ahead
+  const predictionTarget = clamp01(1 - turnRate * 4);
+  if (turnRate < 0.1) {
+    notes.push("You rarely turn, so it reads your path further ahead.");
+  } else if (turnRate > 0.25) {
+    notes.push("You turn a lot, so it trusts its predictions less.");
+  }
+
+  // Food racers and players who crowd it call for a bolder AI
+  const aggressionTarget = clamp01(
+    foodFocus + closeness * 0.5 - wallHugging * 0.3 - 0.2 + (aiLost ? 0.2 : 0)
+  );
+  if (foodFocus > 0.6) {
+    notes.push("You race for the food, so it contests it harder.");
+  } else if (foodFocus < 0.4) {
+    notes.push("You wander away from the food, so it takes fewer risks.");
+  }
+  if (closeness > 0.3) {
+    notes.push("You play close to it, so it tries to cut you off.");
+  }
+  if (wallHugging > 0.3) {
+    notes.push("You hug the walls, so it keeps more room to escape.");
+  }
+
+  const adaptation = clamp01(
+    traits.adaptation + (aiLost ? 0.1 : aiWon ? -0.05 : 0)
+  );
+  if (aiLost) notes.push("It lost the round, so it will change faster.");
+  if (aiWon) notes.push("It won the round, so it changes less.");
+
+  // Even a settled AI keeps learning a little
+  const rate = Math.max(0.2, adaptation);
+  const toward = (value: number, target: number) =>
+    clamp01(value + (target - value) * rate);
+
+  return {
+    from: current,
+    to: {
+      generation: current.generation + 1,
+      traits: {
+        aggression: toward(traits.aggression, aggressionTarget),
+        prediction: toward(traits.prediction, predictionTarget),
+        adaptation,
+      },
+    },
+    notes,
+  };
+}
+
+// Results-screen rows: the generation and each trait, before → after
+export function generationStats(summary: GenerationSummary): GameStat[] {
+  const { from, to } = summary;
+  const percent = (value: number) => `${Math.round(value * 100)}%`;
+  return [
+    {
+      label: "AI Generation",
+      value: `${from.generation} → ${to.generation}`,
+    },
+    ...TRAIT_LABELS.map(([trait, label]) => ({
+      label,
+      value: `${percent(from.traits[trait])} → ${percent(to.traits[trait])}`,
+    })),
+  ];
+}
@@ -0,0 +1,379 @@
+import type {
+  GridCell,
+  SnakeFoodType,
+  SnakeLevel,
+  WallBlock,
+} from "../../types/gameTypes";
+
+/*
+ * 🗺️ Snake arenas: the built-in presets, the checks a user-made level file
+ * has to pass, and the board geometry (walls, wraparound edges, portals)
+ * that the game and its AI both move by.
+ */
+
+// A level turned into lookups for the game loop
+export interface Arena {
+  cols: number;
+  rows: number;
+  wrap: boolean;
+  walls: Set<number>; // Cell keys
+  portals: Map<number, GridCell>; // Cell key of one end → the other end
+  foodCount: number;
+  foodTypes: SnakeFoodType[];
+  playerStart: GridCell;
+  aiStart: GridCell;
+}
+
+export const FOOD_KINDS: Record<
+  SnakeFoodType,
+  { value: number; color: string; lifetime?: number }
+> = {
+  normal: { value: 10, color: "#4caf50" },
+  special: { value: 20, color: "#ffd700" },
+  bonus: { value: 50, color: "#e040fb", lifetime: 8000 }, // Gone after 8s
+};
+
+const FOOD_TYPES = Object.keys(FOOD_KINDS) as SnakeFoodType[];
+const MIN_SIZE = 10;
+const MAX_SIZE = 100;
+const MAX_FOOD = 10;
+
+export const SNAKE_LEVELS: SnakeLevel[] = [
+  {
+    version: 1,
+    name: "🟩 Classic",
+    cols: 40,
+    rows: 30,
+    food: { count: 1, types: ["normal", "normal", "normal", "special"] },
+  },
+  {
+    version: 1,
+    name: "🔲 Small",
+    cols: 20,
+    rows: 15,
+    food: { count: 1, types: ["normal", "normal", "special"] },
+  },
+  {
+    version: 1,
+    name: "🌍 Large",
+    cols: 80,
+    rows: 60,
+    food: { count: 4, types: ["normal", "normal", "special", "bonus"] },
+  },
+  {
+    version: 1,
+    name: "🧱 Obstacles",
+    cols: 40,
+    rows: 30,
+    walls: [
+      { x: 5, y: 4, height: 8 },
+      { x: 34, y: 18, height: 8 },
+      { x: 15, y: 6, width: 10 },
+      { x: 15, y: 23, width: 10 },
+      { x: 19, y: 13, width: 2, height: 4 },
+    ],
+    food: { count: 2, types: ["normal", "normal", "special", "bonus"] },
+  },
+  {
+    version: 1,
+    name: "🌀 Portals",
+    cols: 40,
+    rows: 30,
+    walls: [{ x: 19, y: 8, width: 2, height: 14 }],
+    portals: [
+      [
+        { x: 2, y: 2 },
+        { x: 37, y: 27 },
+      ],
+      [
+        { x: 37, y: 2 },
+        { x: 2, y: 27 },
+      ],
+    ],
+    food: { count: 2, types: ["normal", "special", "bonus"] },
+  },
+  {
+    version: 1,
+    name: "♾️ Wraparound",
+    cols: 40,
+    rows: 30,
+    wrap: true,
+    walls: [
+      { x: 10, y: 20, width: 20 },
+      { x: 20, y: 2, height: 6 },
+    ],
+    food: { count: 3, types: ["normal", "normal", "special", "bonus"] },
+  },
+];
+
+export const cellKey = (cell: GridCell, cols: number) => cell.y * cols + cell.x;
+
+const wallCells = (wall: WallBlock): GridCell[] => {
+  const cells: GridCell[] = [];
+  for (let dy = 0; dy < (wall.height ?? 1); dy++) {
+    for (let dx = 0; dx < (wall.width ?? 1); dx++) {
+      cells.push({ x: wall.x + dx, y: wall.y + dy });
+    }
+  }
+  return cells;
+};
+
+export function buildArena(level: SnakeLevel): Arena {
+  const { cols, rows } = level;
+  const walls = new Set<number>();
+  level.walls?.forEach((wall) =>
+    wallCells(wall).forEach((cell) => walls.add(cellKey(cell, cols)))
+  );
+  const portals = new Map<number, GridCell>();
+  level.portals?.forEach(([a, b]) => {
+    portals.set(cellKey(a, cols), b);
+    portals.set(cellKey(b, cols), a);
+  });
+
+  return {
+    cols,
+    rows,
+    wrap: !!level.wrap,
+    walls,
+    portals,
+    foodCount: level.food?.count ?? 1,
+    foodTypes: level.food?.types?.length ? level.food.types : ["normal"],
+    playerStart: level.playerStart ?? {
+      x: Math.floor(cols / 4),
+      y: Math.floor(rows / 3),
+    },
+    aiStart: level.aiStart ?? {
+      x: Math.floor((cols * 3) / 4),
+      y: Math.floor(rows / 2),
+    },
+  };
+}
+
+// Where one move from `cell` lands: round the edges on wraparound boards and
+// out of the far end of a portal. Null means a wall or the edge of the board.
+export function moveOnArena(
+  arena: Arena,
+  cell: GridCell,
+  direction: GridCell
+): GridCell | null {
+  let next = { x: cell.x + direction.x, y: cell.y + direction.y };
+  if (arena.wrap) {
+    next = {
+      x: (next.x + arena.cols) % arena.cols,
+      y: (next.y + arena.rows) % arena.rows,
+    };
+  } else if (
+    next.x < 0 ||
+    next.x >= arena.cols ||
+    next.y < 0 ||
+    next.y >= arena.rows
+  ) {
+    return null;
+  }
+  if (arena.walls.has(cellKey(next, arena.cols))) return null;
+  return arena.portals.get(cellKey(next, arena.cols)) ?? next;
+}
+
+// Fewest moves from a to b ignoring snakes and walls, allowing for
+// wraparound and portals; never more than the real number (A*'s heuristic)
+export function estimateDistance(
+  arena: Arena,
+  a: GridCell,
+  b: GridCell
+): number {
+  const straight = (from: GridCell, to: GridCell) => {
+    const dx = Math.abs(from.x - to.x);
+    const dy = Math.abs(from.y - to.y);
+    return arena.wrap
+      ? Math.min(dx, arena.cols - dx) + Math.min(dy, arena.rows - dy)
+      : dx + dy;
+  };
+  let best = straight(a, b);
+  arena.portals.forEach((exit, key) => {
+    const entrance = { x: key % arena.cols, y: Math.floor(key / arena.cols) };
+    best = Math.min(best, straight(a, entrance) + straight(exit, b));
+  });
+  return best;
+}
+
+// Cells of a snake three long: the head, then two cells behind it
+const startingSnake = (head: GridCell, heading: number) => [
+  head,
+  { x: head.x - heading, y: head.y },
+  { x: head.x - 2 * heading, y: head.y },
+];
+
+// A snake fits at `head` if its body and the cell it faces are on the board
+// and clear of walls, portals and anything else in `taken`
+const snakeFits = (
+  arena: Arena,
+  taken: Set<number>,
+  head: GridCell,
+  heading: number
+) =>
+  [...startingSnake(head, heading), { x: head.x + heading, y: head.y }].every(
+    (cell) =>
+      cell.x >= 0 &&
+      cell.x < arena.cols &&
+      !taken.has(cellKey(cell, arena.cols))
+  );
+
+const blockedCells = (arena: Arena) =>
+  new Set([...arena.walls, ...Array.from(arena.portals.keys())]);
+
+// Whether the player and first AI have room where the level starts them
+function startsFit(arena: Arena): boolean {
+  const taken = blockedCells(arena);
+  if (!snakeFits(arena, taken, arena.playerStart, 1)) return false;
+  startingSnake(arena.playerStart, 1).forEach((cell) =>
+    taken.add(cellKey(cell, arena.cols))
+  );
+  return snakeFits(arena, taken, arena.aiStart, -1);
+}
+
+// Where snakes past the first two start, as fractions of the board
+const EXTRA_STARTS: { x: number; y: number; heading: number }[] = [
+  { x: 0.25, y: 0.83, heading: 1 },
+  { x: 0.75, y: 0.17, heading: -1 },
+  { x: 0.5, y: 0.67, heading: -1 },
+  { x: 0.5, y: 0.17, heading: 1 },
+];
+
+/*
+ * Bodies and headings for `count` snakes. The player starts on the level's
+ * playerStart heading right and the first AI on its aiStart heading left;
+ * the rest take the free cells nearest spots spread over the board.
+ */
+export function startingSnakes(
+  arena: Arena,
+  count: number
+): { body: GridCell[]; direction: GridCell }[] {
+  const snakes = [
+    { body: startingSnake(arena.playerStart, 1), direction: { x: 1, y: 0 } },
+    { body: startingSnake(arena.aiStart, -1), direction: { x: -1, y: 0 } },
+  ].slice(0, count);
+
+  const taken = blockedCells(arena);
+  snakes.forEach(({ body }) =>
+    body.forEach((cell) => taken.add(cellKey(cell, arena.cols)))
+  );
+
+  for (let i = snakes.length; i < count; i++) {
+    const { x, y, heading } = EXTRA_STARTS[(i - 2) % EXTRA_STARTS.length];
+    const wanted = {
+      x: Math.floor(arena.cols * x),
+      y: Math.floor(arena.rows * y),
+    };
+    let head: GridCell | null = null;
+    for (let key = 0; key < arena.cols * arena.rows; key++) {
+      const cell = { x: key % arena.cols, y: Math.floor(key / arena.cols) };
+      if (
+        snakeFits(arena, taken, cell, heading) &&
+        (!head ||
+          estimateDistance(arena, cell, wanted) <
+            estimateDistance(arena, head, wanted))
+      ) {
+        head = cell;
+      }
+    }
+    if (!head) break; // No room left on the board
+
+    const body = startingSnake(head, heading);
+    body.forEach((cell) => taken.add(cellKey(cell, arena.cols)));
+    snakes.push({ body, direction: { x: heading, y: 0 } });
+  }
+  return snakes;
+}
+
+/* ✅ Validating level files */
+
+const isCell = (value: unknown, cols: number, rows: number) => {
+  const cell = value as GridCell | null;
+  return (
+    !!cell &&
+    Number.isInteger(cell.x) &&
+    Number.isInteger(cell.y) &&
+    cell.x >= 0 &&
+    cell.x < cols &&
+    cell.y >= 0 &&
+    cell.y < rows
+  );
+};
+
+const isSize = (value: unknown) =>
+  value === undefined || (Number.isInteger(value) && (value as number) >= 1);
+
+// Every portal end on its own cell, clear of walls; a shared end would
+// overwrite the other pair and leave it one-way
+function portalsFit({ cols, walls, portals = [] }: SnakeLevel): boolean {
+  const blocked = new Set<number>();
+  walls?.forEach((wall) =>
+    wallCells(wall).forEach((cell) => blocked.add(cellKey(cell, cols)))
+  );
+  return portals.flat().every((end) => {
+    const key = cellKey(end, cols);
+    if (blocked.has(key)) return false;
+    blocked.add(key);
+    return true;
+  });
+}
+
+export function isSnakeLevel(data: unknown): data is SnakeLevel {
+  const level = data as SnakeLevel | null;
+  if (
+    level?.version !== 1 ||
+    typeof level.name !== "string" ||
+    level.name.trim() === "" ||
+    !Number.isInteger(level.cols) ||
+    !Number.isInteger(level.rows) ||
+    level.cols < MIN_SIZE ||
+    level.rows < MIN_SIZE ||
+    level.cols > MAX_SIZE ||
+    level.rows > MAX_SIZE ||
+    (level.wrap !== undefined && typeof level.wrap !== "boolean")
+  ) {
+    return false;
+  }
+  const { cols, rows, walls, portals, food } = level;
+  const inside = (cell: unknown) => isCell(cell, cols, rows);
+
+  return (
+    (walls === undefined ||
+      (Array.isArray(walls) &&
+        walls.every(
+          (wall) =>
+            inside(wall) &&
+            isSize(wall.width) &&
+            isSize(wall.height) &&
+            wall.x + (wall.width ?? 1) <= cols &&
+            wall.y + (wall.height ?? 1) <= rows
+        ))) &&
+    (portals === undefined ||
+      (Array.isArray(portals) &&
+        portals.every(
+          (pair) =>
+            Array.isArray(pair) && pair.length === 2 && pair.every(inside)
+        ) &&
+        portalsFit(level))) &&
+    (food === undefined ||
+      (Number.isInteger(food?.count) &&
+        food.count >= 1 &&
+        food.count <= MAX_FOOD &&
+        (food.types === undefined ||
+          (Array.isArray(food.types) &&
+            food.types.every((type) => FOOD_TYPES.includes(type)))))) &&
+    (level.playerStart === undefined || inside(level.playerStart)) &&
+    (level.aiStart === undefined || inside(level.aiStart)) &&
+    startsFit(buildArena(level))
+  );
+}
+
+// One level file, or null if it isn't one
+export function parseLevel(json: string): SnakeLevel | null {
+  try {
+    const data = JSON.parse(json);
+    return isSnakeLevel(data) ? data : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,41 @@
+import dynamic from "next/dynamic";
+import LoadingSkeleton from "../components/LoadingSkeleton";
+import type { Feature, FeatureManifestEntry } from "../types/featureTypes";
+
+// Components referenced by name from features.json. Each one is loaded on
+// demand, so the dashboard only pays for a feature once it is opened.
+export const featureComponents: Record<
+  string,
+  React.ComponentType<Record<string, unknown>>
+> = {
+  AnimationPlayground: dynamic(
+    () => import("../components/AnimationPlayground"),
+    {
+      ssr: false,
+      loading: () => <LoadingSkeleton label="Animation Playground" />,
+    }
+  ),
+  ReservoirDreamscape: dynamic(
+    () => import("../components/ReservoirDreamscape"),
+    {
+      ssr: false,
+      loading: () => <LoadingSkeleton label="Reservoir Dreamscape" />,
+    }
+  ),
+  AIAssistant: dynamic(() => import("../components/AIAssistant"), {
+    ssr: false,
+    loading: () => <LoadingSkeleton label="the AI Lab" />,
+  }),
+  PoesCorner: dynamic(() => import("../components/PoesCorner"), {
+    ssr: false,
+    loading: () => <LoadingSkeleton label="Poe's Corner" />,
+  }),
+};
+
+export function resolveFeature(entry: FeatureManifestEntry): Feature {
+  const { component, ...feature } = entry;
+  return {
+    ...feature,
+    component: component ? featureComponents[component] : undefined,
+  };
+}
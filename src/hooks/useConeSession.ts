@@ -0,0 +1,39 @@
+import { useState, useEffect, useCallback } from "react";
+
+// Tracks the signed cone session issued by /api/cone-code/verify.
+// Access lasts until the daily code rotates, then flips `expired` on.
+export const useConeSession = (initialExpiresAt: number | null) => {
+  const [expiresAt, setExpiresAt] = useState<number | null>(initialExpiresAt);
+  const [expired, setExpired] = useState(false);
+
+  useEffect(() => {
+    if (expiresAt === null) return;
+
+    const timer = setTimeout(() => {
+      setExpiresAt(null);
+      setExpired(true);
+    }, Math.max(0, expiresAt - Date.now()));
+
+    return () => clearTimeout(timer);
+  }, [expiresAt]);
+
+  const grant = useCallback((nextExpiresAt: number) => {
+    setExpired(false);
+    setExpiresAt(nextExpiresAt);
+  }, []);
+
+  const revoke = useCallback(async () => {
+    setExpiresAt(null);
+    await fetch("/api/cone-code/session", { method: "DELETE" }).catch(() => {});
+  }, []);
+
+  return {
+    accessGranted: expiresAt !== null,
+    expiresAt,
+    expired,
+    grant,
+    revoke,
+  };
+};
+
+export default useConeSession;
@@ -0,0 +1,31 @@
+import { useState, useEffect } from "react";
+
+// Milliseconds left until `targetTime`, ticking once a second.
+// Returns null until mounted so server and client markup agree.
+export const useCountdown = (targetTime: number | null) => {
+  const [now, setNow] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (targetTime === null) return;
+
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [targetTime]);
+
+  if (targetTime === null || now === null) return null;
+  return Math.max(0, targetTime - now);
+};
+
+// 3725000 -> "01:02:05"
+export const formatCountdown = (ms: number): string => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return [hours, minutes, seconds]
+    .map((unit) => String(unit).padStart(2, "0"))
+    .join(":");
+};
+
+export default useCountdown;
@@ -0,0 +1,187 @@
+import { useEffect, useMemo, useRef } from "react";
+import { createGameRuntime } from "../components/games/gameRuntime";
+import type {
+  GameCommand,
+  GameEngineProps,
+  GameRuntime,
+  GameState,
+  RenderFrame,
+  TickInput,
+} from "../types/gameTypes";
+
+interface UseGameRuntimeOptions<S, P>
+  extends Pick<
+    GameEngineProps,
+    | "gameState"
+    | "setGameState"
+    | "controls"
+    | "onGameEvent"
+    | "commands"
+    | "session"
+  > {
+  stepMs?: number;
+  init: () => S;
+  // Gets this tick's input from the session: live, or played back from a replay
+  step: (state: S, stepMs: number, input: TickInput) => S;
+  render: (state: S, frame: RenderFrame<P>) => void;
+  capture?: (state: S) => P;
+  // The small HUD summary (score, gameOver...) the host sees as gameState
+  snapshot: (state: S) => GameState;
+}
+
+export interface GameRuntimeHandle<S> {
+  getState: () => S | null;
+  update: (updater: (state: S) => S) => void;
+  pause: () => void;
+  resume: () => void;
+  togglePause: () => void;
+  isPaused: () => boolean;
+  restart: () => void;
+  // Hands a command the game made itself (e.g. a background job's result)
+  // to the next step, so replays record when it landed
+  queue: (command: GameCommand) => void;
+}
+
+function shallowEqual(a: GameState, b: GameState) {
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length && keys.every((k) => a[k] === b[k])
+  );
+}
+
+// Runs a GameEngineProps game on the shared fixed-timestep runtime.
+// The live simulation stays in a ref; React only hears about HUD changes.
+// An empty gameState from the host means "start a fresh run".
+// Pause, resume and restart commands are handled here; anything else is
+// queued and handed to the next step so replays can record it.
+export function useGameRuntime<S, P = unknown>(
+  options: UseGameRuntimeOptions<S, P>
+): GameRuntimeHandle<S> {
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const runtimeRef = useRef<GameRuntime<S> | null>(null);
+  const publishedRef = useRef<GameState>({});
+  const queuedCommandsRef = useRef<GameCommand[]>([]);
+
+  const handle = useMemo<GameRuntimeHandle<S>>(() => {
+    const publish = () => {
+      const runtime = runtimeRef.current;
+      if (!runtime) return;
+      const snapshot = {
+        ...optionsRef.current.snapshot(runtime.getState()),
+        paused: runtime.isPaused(),
+      };
+      if (shallowEqual(snapshot, publishedRef.current)) return;
+      publishedRef.current = snapshot;
+      optionsRef.current.setGameState(snapshot);
+    };
+
+    const setPaused = (paused: boolean) => {
+      const runtime = runtimeRef.current;
+      if (!runtime || runtime.isPaused() === paused) return;
+      if (paused) runtime.pause();
+      else runtime.resume();
+      optionsRef.current.onGameEvent({ type: paused ? "pause" : "resume" });
+      publish();
+    };
+
+    const step = (state: S, stepMs: number) => {
+      const { session, controls } = optionsRef.current;
+      const input = session.advance(
+        { controls, commands: queuedCommandsRef.current.splice(0) },
+        stepMs
+      );
+      const next = optionsRef.current.step(state, stepMs, input);
+      // The tape ran out: freeze on the last recorded frame
+      if (session.isReplayFinished()) setPaused(true);
+      return next;
+    };
+
+    const restart = () => {
+      optionsRef.current.session.begin();
+      queuedCommandsRef.current = [];
+      const initialState = optionsRef.current.init();
+      if (!runtimeRef.current) {
+        runtimeRef.current = createGameRuntime<S, P>({
+          stepMs: optionsRef.current.stepMs,
+          initialState,
+          step,
+          render: (state, frame) => optionsRef.current.render(state, frame),
+          capture: (state) =>
+            optionsRef.current.capture?.(state) ?? (null as P),
+          onStep: publish,
+        });
+        runtimeRef.current.start();
+      } else {
+        runtimeRef.current.setState(initialState);
+        runtimeRef.current.resume();
+      }
+
+      publishedRef.current = {};
+      publish();
+    };
+
+    // Replays bring their own commands
+    const queue = (command: GameCommand) => {
+      if (!optionsRef.current.session.isReplaying()) {
+        queuedCommandsRef.current.push(command);
+      }
+    };
+
+    return {
+      getState: () => runtimeRef.current?.getState() ?? null,
+      update: (updater) => {
+        runtimeRef.current?.update(updater);
+        publish();
+      },
+      pause: () => setPaused(true),
+      resume: () => setPaused(false),
+      togglePause: () => setPaused(!runtimeRef.current?.isPaused()),
+      isPaused: () => runtimeRef.current?.isPaused() ?? false,
+      restart,
+      queue,
+    };
+  }, []);
+
+  // (Re)start whenever the host hands us an empty gameState
+  const { gameState, commands } = options;
+  useEffect(() => {
+    if (Object.keys(gameState).length === 0) handle.restart();
+  }, [gameState, handle]);
+
+  // Commands from the host
+  useEffect(
+    () =>
+      commands.subscribe((command) => {
+        switch (command.type) {
+          case "PAUSE":
+            handle.pause();
+            break;
+          case "RESUME":
+            handle.resume();
+            break;
+          case "TOGGLE_PAUSE":
+            handle.togglePause();
+            break;
+          case "RESTART":
+            handle.restart();
+            break;
+          default:
+            handle.queue(command);
+        }
+      }),
+    [commands, handle]
+  );
+
+  useEffect(
+    () => () => {
+      runtimeRef.current?.stop();
+      runtimeRef.current = null;
+    },
+    []
+  );
+
+  return handle;
+}
+
+export default useGameRuntime;
@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  DEFAULT_BINDINGS,
+  parseBindings,
+} from "../components/games/inputBindings";
+import type { InputBindings } from "../types/gameTypes";
+
+const STORAGE_KEY = "ai-game-workshop:bindings";
+
+// The player's key and gamepad bindings, saved in this browser
+export const useInputBindings = () => {
+  const [bindings, setBindingsState] =
+    useState<InputBindings>(DEFAULT_BINDINGS);
+
+  // Read after mount so server and client render the same defaults first
+  useEffect(() => {
+    try {
+      setBindingsState(parseBindings(localStorage.getItem(STORAGE_KEY)));
+    } catch {
+      // Storage blocked (private mode, sandboxed iframe): keep the defaults
+    }
+  }, []);
+
+  const setBindings = useCallback((next: InputBindings) => {
+    setBindingsState(next);
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } catch {
+      // Still works for this visit, it just won't be remembered
+    }
+  }, []);
+
+  const resetBindings = useCallback(() => {
+    setBindingsState(DEFAULT_BINDINGS);
+    try {
+      localStorage.removeItem(STORAGE_KEY);
+    } catch {
+      // Nothing saved to clear
+    }
+  }, []);
+
+  return { bindings, setBindings, resetBindings };
+};
+
+export default useInputBindings;
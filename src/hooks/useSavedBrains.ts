@@ -0,0 +1,44 @@
+import { useCallback, useEffect, useState } from "react";
+import { parseBrains } from "../components/games/networkBrains";
+import type { SavedBrain } from "../types/gameTypes";
+
+const STORAGE_KEY = "ai-game-workshop:brains";
+
+// Trained AI networks kept by name in this browser, newest first
+export const useSavedBrains = () => {
+  const [brains, setBrains] = useState<SavedBrain[]>([]);
+
+  // Read after mount so server and client render the same empty list first
+  useEffect(() => {
+    try {
+      setBrains(parseBrains(localStorage.getItem(STORAGE_KEY)));
+    } catch {
+      // Storage blocked (private mode, sandboxed iframe): start empty
+    }
+  }, []);
+
+  const store = useCallback((next: SavedBrain[]) => {
+    setBrains(next);
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    } catch {
+      // Still usable for this visit, it just won't be remembered
+    }
+  }, []);
+
+  // Saving under an existing name replaces that brain
+  const saveBrain = useCallback(
+    (brain: SavedBrain) =>
+      store([brain, ...brains.filter((saved) => saved.name !== brain.name)]),
+    [brains, store]
+  );
+
+  const deleteBrain = useCallback(
+    (name: string) => store(brains.filter((saved) => saved.name !== name)),
+    [brains, store]
+  );
+
+  return { brains, saveBrain, deleteBrain };
+};
+
+export default useSavedBrains;
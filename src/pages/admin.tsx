@@ -0,0 +1,384 @@
+import { useState, useEffect, useCallback } from "react";
+import styled from "styled-components";
+
+/* 🎟️ Types mirrored from /api/admin/cone-codes */
+interface IssuedCodeRow {
+  id: string;
+  name: string;
+  code: string;
+  kind: "one-time" | "time-boxed";
+  status: "active" | "used" | "expired" | "revoked";
+  createdAt: number;
+  expiresAt: number;
+  uses: { at: number; client: string }[];
+}
+
+interface AccessLogEntry {
+  at: number;
+  client: string;
+  via: "daily" | "issued";
+  codeId?: string;
+  name?: string;
+}
+
+const TOKEN_STORAGE_KEY = "cone-admin-token";
+
+function formatTime(ms: number) {
+  return new Date(ms).toLocaleString();
+}
+
+/* 🧱 Styled Components */
+const Page = styled.main`
+  min-height: 100svh;
+  padding: 3rem 1rem;
+  background: #101114;
+  color: #fff;
+  display: flex;
+  justify-content: center;
+`;
+
+const Panel = styled.div`
+  width: min(960px, 100%);
+  display: flex;
+  flex-direction: column;
+  gap: 2rem;
+`;
+
+const Title = styled.h1`
+  font-size: 2rem;
+  color: #ff7a18;
+`;
+
+const Section = styled.section`
+  padding: 1.5rem;
+  background: #1a1b20;
+  border: 2px dashed #333;
+  border-radius: 16px;
+
+  h2 {
+    font-size: 1.2rem;
+    margin-bottom: 1rem;
+  }
+`;
+
+const Row = styled.form`
+  display: flex;
+  flex-wrap: wrap;
+  gap: 0.75rem;
+  align-items: center;
+`;
+
+const Input = styled.input`
+  flex: 1;
+  min-width: 160px;
+  padding: 0.6rem 0.75rem;
+  border-radius: 8px;
+  border: 1px solid #ff7a18;
+  background: #0f1013;
+  color: #eaeaea;
+  font-size: 0.95rem;
+`;
+
+const Select = styled.select`
+  padding: 0.6rem 0.75rem;
+  border-radius: 8px;
+  border: 1px solid #ff7a18;
+  background: #0f1013;
+  color: #eaeaea;
+`;
+
+const Button = styled.button<{ $danger?: boolean }>`
+  padding: 0.6rem 1rem;
+  background: ${({ $danger }) =>
+    $danger ? "transparent" : "linear-gradient(180deg, #ff8e2b, #ff7a18)"};
+  color: ${({ $danger }) => ($danger ? "#ff6b6b" : "#0b0c0f")};
+  border: ${({ $danger }) => ($danger ? "1px solid #ff6b6b" : "none")};
+  font-weight: 700;
+  border-radius: 8px;
+  cursor: pointer;
+
+  &:disabled {
+    opacity: 0.5;
+    cursor: not-allowed;
+  }
+`;
+
+const Table = styled.table`
+  width: 100%;
+  border-collapse: collapse;
+  font-size: 0.9rem;
+
+  th,
+  td {
+    text-align: left;
+    padding: 0.5rem;
+    border-bottom: 1px solid #2a2b30;
+  }
+
+  th {
+    color: #aaa;
+    font-weight: 600;
+  }
+
+  code {
+    background: #222;
+    padding: 0.2rem 0.4rem;
+    border-radius: 6px;
+    user-select: all;
+  }
+`;
+
+const StatusPill = styled.span<{ $status: IssuedCodeRow["status"] }>`
+  padding: 0.15rem 0.6rem;
+  border-radius: 12px;
+  font-size: 0.75rem;
+  font-weight: 600;
+  text-transform: uppercase;
+  color: #000;
+  background: ${({ $status }) =>
+    $status === "active"
+      ? "#10B981"
+      : $status === "used"
+      ? "#4CAF50"
+      : $status === "revoked"
+      ? "#ff6b6b"
+      : "#666"};
+`;
+
+const Notice = styled.p`
+  margin-top: 1rem;
+  font-style: italic;
+  opacity: 0.8;
+`;
+
+/* 🚧 THE ADMIN CONSOLE */
+export default function Admin() {
+  const [token, setToken] = useState("");
+  const [tokenInput, setTokenInput] = useState("");
+  const [codes, setCodes] = useState<IssuedCodeRow[]>([]);
+  const [accessLog, setAccessLog] = useState<AccessLogEntry[]>([]);
+  const [name, setName] = useState("");
+  const [kind, setKind] = useState<IssuedCodeRow["kind"]>("one-time");
+  const [hours, setHours] = useState("24");
+  const [notice, setNotice] = useState("");
+  const [showInactive, setShowInactive] = useState(false);
+
+  useEffect(() => {
+    setToken(sessionStorage.getItem(TOKEN_STORAGE_KEY) ?? "");
+  }, []);
+
+  const request = useCallback(
+    async (path: string, init?: RequestInit) => {
+      const res = await fetch(path, {
+        ...init,
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+      });
+      const data = await res.json();
+      if (res.status === 401) {
+        sessionStorage.removeItem(TOKEN_STORAGE_KEY);
+        setToken("");
+      }
+      if (!res.ok) throw new Error(data.message ?? "Request failed");
+      return data;
+    },
+    [token]
+  );
+
+  const refresh = useCallback(async () => {
+    try {
+      const data = await request("/api/admin/cone-codes");
+      setCodes(data.codes);
+      setAccessLog(data.accessLog);
+    } catch (error) {
+      setNotice(`⚠️ ${(error as Error).message}`);
+    }
+  }, [request]);
+
+  useEffect(() => {
+    if (token) refresh();
+  }, [token, refresh]);
+
+  const handleSignIn = (e: React.FormEvent) => {
+    e.preventDefault();
+    sessionStorage.setItem(TOKEN_STORAGE_KEY, tokenInput);
+    setToken(tokenInput);
+    setTokenInput("");
+    setNotice("");
+  };
+
+  const handleMint = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const { code } = await request("/api/admin/cone-codes", {
+        method: "POST",
+        body: JSON.stringify({ name, kind, hours: Number(hours) }),
+      });
+      setNotice(`✅ Minted ${code.code} for ${code.name}`);
+      setName("");
+      refresh();
+    } catch (error) {
+      setNotice(`⚠️ ${(error as Error).message}`);
+    }
+  };
+
+  const handleRevoke = async (code: IssuedCodeRow) => {
+    try {
+      await request(`/api/admin/cone-codes/${code.id}`, { method: "DELETE" });
+      setNotice(`🚫 Revoked ${code.code} (${code.name})`);
+      refresh();
+    } catch (error) {
+      setNotice(`⚠️ ${(error as Error).message}`);
+    }
+  };
+
+  if (!token) {
+    return (
+      <Page>
+        <Panel>
+          <Title>🦺 Cone Admin</Title>
+          <Section>
+            <h2>Who goes there?</h2>
+            <Row onSubmit={handleSignIn}>
+              <Input
+                type="password"
+                value={tokenInput}
+                onChange={(e) => setTokenInput(e.target.value)}
+                placeholder="CONE_ADMIN_TOKEN"
+              />
+              <Button type="submit" disabled={!tokenInput}>
+                Enter
+              </Button>
+            </Row>
+            {notice && <Notice>{notice}</Notice>}
+          </Section>
+        </Panel>
+      </Page>
+    );
+  }
+
+  const visibleCodes = showInactive
+    ? codes
+    : codes.filter((code) => code.status === "active");
+
+  return (
+    <Page>
+      <Panel>
+        <Title>🦺 Cone Admin</Title>
+
+        <Section>
+          <h2>Mint a code</h2>
+          <Row onSubmit={handleMint}>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Who is it for?"
+            />
+            <Select
+              value={kind}
+              onChange={(e) => setKind(e.target.value as IssuedCodeRow["kind"])}
+            >
+              <option value="one-time">One-time</option>
+              <option value="time-boxed">Time-boxed</option>
+            </Select>
+            {kind === "time-boxed" && (
+              <Input
+                type="number"
+                min={1}
+                step={1}
+                value={hours}
+                onChange={(e) => setHours(e.target.value)}
+                style={{ flex: "0 0 110px", minWidth: 0 }}
+                aria-label="Hours valid"
+              />
+            )}
+            <Button type="submit" disabled={!name.trim()}>
+              Mint
+            </Button>
+          </Row>
+          {notice && <Notice>{notice}</Notice>}
+        </Section>
+
+        <Section>
+          <h2>
+            Issued codes{" "}
+            <label style={{ fontSize: "0.85rem", fontWeight: 400 }}>
+              <input
+                type="checkbox"
+                checked={showInactive}
+                onChange={(e) => setShowInactive(e.target.checked)}
+              />{" "}
+              show used, expired and revoked
+            </label>
+          </h2>
+          <Table>
+            <thead>
+              <tr>
+                <th>Name</th>
+                <th>Code</th>
+                <th>Kind</th>
+                <th>Expires</th>
+                <th>Uses</th>
+                <th>Status</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {visibleCodes.map((code) => (
+                <tr key={code.id}>
+                  <td>{code.name}</td>
+                  <td>
+                    <code>{code.code}</code>
+                  </td>
+                  <td>{code.kind}</td>
+                  <td>{formatTime(code.expiresAt)}</td>
+                  <td>{code.uses.length}</td>
+                  <td>
+                    <StatusPill $status={code.status}>{code.status}</StatusPill>
+                  </td>
+                  <td>
+                    {code.status !== "revoked" && (
+                      <Button $danger onClick={() => handleRevoke(code)}>
+                        Revoke
+                      </Button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </Table>
+          {visibleCodes.length === 0 && <Notice>No codes to show.</Notice>}
+        </Section>
+
+        <Section>
+          <h2>Recent access</h2>
+          <Table>
+            <thead>
+              <tr>
+                <th>When</th>
+                <th>Who</th>
+                <th>Via</th>
+                <th>Client</th>
+              </tr>
+            </thead>
+            <tbody>
+              {accessLog.map((entry) => (
+                <tr key={`${entry.at}-${entry.client}`}>
+                  <td>{formatTime(entry.at)}</td>
+                  <td>{entry.name ?? "—"}</td>
+                  <td>
+                    {entry.via === "daily" ? "Daily code" : "Issued code"}
+                  </td>
+                  <td>{entry.client}</td>
+                </tr>
+              ))}
+            </tbody>
+          </Table>
+          {accessLog.length === 0 && <Notice>Nobody has come in yet.</Notice>}
+        </Section>
+      </Panel>
+    </Page>
+  );
+}
@@ -0,0 +1,29 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { isAdminRequest } from "../../../../utils/coneCode";
+import { IssuedCode, revokeIssuedCode } from "../../../../utils/issuedCodes";
+
+type Data = { code: IssuedCode } | { message: string };
+
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<Data>
+) {
+  if (!isAdminRequest(req)) {
+    res.status(401).json({ message: "The cone does not recognize you" });
+    return;
+  }
+
+  if (req.method !== "DELETE") {
+    res.setHeader("Allow", "DELETE");
+    res.status(405).json({ message: "Method not allowed" });
+    return;
+  }
+
+  const code = revokeIssuedCode(String(req.query.id));
+  if (!code) {
+    res.status(404).json({ message: "No such code" });
+    return;
+  }
+
+  res.status(200).json({ code });
+}
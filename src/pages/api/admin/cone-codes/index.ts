@@ -0,0 +1,95 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getConeSecret, isAdminRequest } from "../../../../utils/coneCode";
+import {
+  AccessLogEntry,
+  getAccessLog,
+  getIssuedCodeStatus,
+  IssuedCode,
+  IssuedCodeStatus,
+  listIssuedCodes,
+  mintIssuedCode,
+} from "../../../../utils/issuedCodes";
+
+const MAX_TIME_BOX_HOURS = 14 * 24;
+
+type Data =
+  | {
+      codes: (IssuedCode & { status: IssuedCodeStatus })[];
+      accessLog: AccessLogEntry[];
+    }
+  | { code: IssuedCode }
+  | { message: string };
+
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<Data>
+) {
+  if (!isAdminRequest(req)) {
+    res.status(401).json({ message: "The cone does not recognize you" });
+    return;
+  }
+
+  if (req.method === "GET") {
+    const now = Date.now();
+    res.setHeader("Cache-Control", "no-store");
+    res.status(200).json({
+      codes: listIssuedCodes().map((code) => ({
+        ...code,
+        status: getIssuedCodeStatus(code, now),
+      })),
+      accessLog: getAccessLog(),
+    });
+    return;
+  }
+
+  if (req.method === "POST") {
+    const secret = getConeSecret();
+    if (!secret) {
+      res.status(500).json({ message: "Cone code secret is not configured" });
+      return;
+    }
+
+    const { name, kind, hours } = req.body ?? {};
+    if (typeof name !== "string" || !name.trim()) {
+      res.status(400).json({ message: "Every code needs a name" });
+      return;
+    }
+    if (kind !== "one-time" && kind !== "time-boxed") {
+      res.status(400).json({ message: "Kind must be one-time or time-boxed" });
+      return;
+    }
+
+    // Whole hours only, so a typo can't mint a code that's dead on arrival
+    const boxHours = Number(hours);
+    if (
+      kind === "time-boxed" &&
+      !(
+        Number.isInteger(boxHours) &&
+        boxHours >= 1 &&
+        boxHours <= MAX_TIME_BOX_HOURS
+      )
+    ) {
+      res.status(400).json({
+        message: `Time-boxed codes last a whole number of hours, between 1 and ${MAX_TIME_BOX_HOURS}`,
+      });
+      return;
+    }
+
+    const now = Date.now();
+    const code = mintIssuedCode(
+      {
+        name,
+        kind,
+        expiresAt:
+          kind === "time-boxed" ? now + boxHours * 60 * 60 * 1000 : undefined,
+      },
+      secret,
+      now
+    );
+    res.status(201).json({ code });
+    return;
+  }
+
+  res.setHeader("Allow", "GET, POST");
+  res.status(405).json({ message: "Method not allowed" });
+}
@@ -0,0 +1,42 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import {
+  getConeSession,
+  getRotationInfo,
+  RotationInfo,
+  serializeClearedSessionCookie,
+} from "../../../utils/coneCode";
+
+type Data = {
+  granted: boolean;
+  expiresAt?: number;
+  rotation?: RotationInfo;
+};
+
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<Data>
+) {
+  if (req.method === "DELETE") {
+    // Leaving the dashboard hands the hard hat back
+    res.setHeader("Set-Cookie", serializeClearedSessionCookie());
+    res.status(200).json({ granted: false });
+    return;
+  }
+
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET, DELETE");
+    res.status(405).json({ granted: false });
+    return;
+  }
+
+  const session = getConeSession(req.cookies);
+  const rotation = getRotationInfo();
+  res.setHeader("Cache-Control", "no-store");
+  res
+    .status(200)
+    .json(
+      session
+        ? { granted: true, expiresAt: session.expiresAt, rotation }
+        : { granted: false, rotation }
+    );
+}
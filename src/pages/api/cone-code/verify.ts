@@ -0,0 +1,99 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import {
+  createSessionToken,
+  getConeSecret,
+  getNextRollover,
+  ISSUED_GRANT_PREFIX,
+  matchConeCode,
+  serializeSessionCookie,
+} from "../../../utils/coneCode";
+import { recordAccess, redeemIssuedCode } from "../../../utils/issuedCodes";
+import {
+  AttemptBlock,
+  clearAttempts,
+  getAttemptBlock,
+  getClientKey,
+  recordFailedAttempt,
+} from "../../../utils/coneRateLimit";
+
+type Data = {
+  granted: boolean;
+  expiresAt?: number;
+  block?: AttemptBlock;
+  message?: string;
+};
+
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<Data>
+) {
+  if (req.method !== "POST") {
+    res.setHeader("Allow", "POST");
+    res.status(405).json({ granted: false, message: "Method not allowed" });
+    return;
+  }
+
+  const secret = getConeSecret();
+  if (!secret) {
+    res
+      .status(500)
+      .json({ granted: false, message: "Cone code secret is not configured" });
+    return;
+  }
+
+  const clientKey = getClientKey(req);
+  const now = new Date();
+
+  // Cooling down or locked out: don't even look at the code
+  const activeBlock = getAttemptBlock(clientKey, now.getTime());
+  if (activeBlock) {
+    res.setHeader(
+      "Retry-After",
+      Math.ceil((activeBlock.retryAt - now.getTime()) / 1000)
+    );
+    res.status(429).json({ granted: false, block: activeBlock });
+    return;
+  }
+
+  const code = typeof req.body?.code === "string" ? req.body.code : "";
+  let match = matchConeCode(code, secret, now);
+
+  if (match) {
+    recordAccess({ at: now.getTime(), client: clientKey, via: "daily" });
+  } else {
+    // Not the daily code, so maybe one minted for a specific guest
+    const issued = redeemIssuedCode(code, clientKey, now.getTime());
+    if (issued) {
+      match = {
+        grant: `${ISSUED_GRANT_PREFIX}${issued.id}`,
+        expiresAt:
+          issued.kind === "time-boxed"
+            ? issued.expiresAt
+            : getNextRollover(now).getTime(),
+      };
+      recordAccess({
+        at: now.getTime(),
+        client: clientKey,
+        via: "issued",
+        codeId: issued.id,
+        name: issued.name,
+      });
+    }
+  }
+
+  if (!match) {
+    const block = recordFailedAttempt(clientKey, now.getTime());
+    res
+      .status(401)
+      .json(block ? { granted: false, block } : { granted: false });
+    return;
+  }
+
+  clearAttempts(clientKey);
+
+  const { grant, expiresAt } = match;
+  const token = createSessionToken(grant, expiresAt, secret);
+
+  res.setHeader("Set-Cookie", serializeSessionCookie(token, expiresAt, now));
+  res.status(200).json({ granted: true, expiresAt });
+}
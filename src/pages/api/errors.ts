@@ -0,0 +1,63 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { getConeSession, isAdminRequest } from "../../utils/coneCode";
+import { getClientKey, takeRequestSlot } from "../../utils/coneRateLimit";
+import {
+  ErrorReport,
+  listErrorReports,
+  parseErrorReport,
+  recordErrorReport,
+} from "../../utils/errorReports";
+
+const REPORTS_PER_WINDOW = 10; // Per client, so a crash loop can't flood the log
+const REPORT_WINDOW_MS = 60 * 1000;
+
+type Data =
+  | { reports: ErrorReport[] }
+  | { received: true }
+  | { message: string };
+
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<Data>
+) {
+  // Hard hats whose zone crashed can file a report; only admins can read them
+  if (req.method === "POST") {
+    if (!getConeSession(req.cookies)) {
+      res.status(401).json({ message: "The cone does not recognize you" });
+      return;
+    }
+
+    const client = getClientKey(req);
+    if (
+      !takeRequestSlot("errors", client, REPORTS_PER_WINDOW, REPORT_WINDOW_MS)
+    ) {
+      res.setHeader("Retry-After", Math.ceil(REPORT_WINDOW_MS / 1000));
+      res.status(429).json({ message: "Too many crash reports, slow down" });
+      return;
+    }
+
+    const report = parseErrorReport(req.body, client);
+    if (!report) {
+      res.status(400).json({ message: "Reports need a zone and a message" });
+      return;
+    }
+
+    recordErrorReport(report);
+    res.status(201).json({ received: true });
+    return;
+  }
+
+  if (req.method === "GET") {
+    if (!isAdminRequest(req)) {
+      res.status(401).json({ message: "The cone does not recognize you" });
+      return;
+    }
+
+    res.setHeader("Cache-Control", "no-store");
+    res.status(200).json({ reports: listErrorReports() });
+    return;
+  }
+
+  res.setHeader("Allow", "GET, POST");
+  res.status(405).json({ message: "Method not allowed" });
+}
@@ -0,0 +1,21 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import type { FeatureManifestEntry } from "../../types/featureTypes";
+import { getConeSession } from "../../utils/coneCode";
+import { getFeatureManifest } from "../../utils/featureRegistry";
+
+type Data = {
+  features: FeatureManifestEntry[];
+};
+
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<Data>
+) {
+  // The registry sits behind the cone like everything else
+  if (!getConeSession(req.cookies)) {
+    res.status(401).json({ features: [] });
+    return;
+  }
+
+  res.status(200).json({ features: getFeatureManifest() });
+}
@@ -0,0 +1,63 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import type { GameScoreboard, RecordedGameRun } from "../../types/gameTypes";
+import {
+  createPlayerId,
+  getConeSession,
+  getPlayerId,
+  serializePlayerCookie,
+} from "../../utils/coneCode";
+import {
+  getScoreboard,
+  parseGameRun,
+  recordGameRun,
+} from "../../utils/gameScores";
+
+type Data = GameScoreboard | RecordedGameRun | { message: string };
+
+export default function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<Data>
+) {
+  // Scores are for hard hats only
+  if (!getConeSession(req.cookies)) {
+    res.status(401).json({ message: "The cone does not recognize you" });
+    return;
+  }
+
+  // Runs belong to the browser's player id, handed out on its first visit
+  let client = getPlayerId(req.cookies);
+  if (!client) {
+    client = createPlayerId();
+    res.setHeader("Set-Cookie", serializePlayerCookie(client));
+  }
+
+  // A finished run from the workshop
+  if (req.method === "POST") {
+    const run = parseGameRun(req.body);
+    if (!run) {
+      res.status(400).json({
+        message: "Runs need a gameId, score, durationMs, difficulty and winner",
+      });
+      return;
+    }
+
+    res.status(201).json(recordGameRun(run, client));
+    return;
+  }
+
+  // Leaderboard plus your own history for one game
+  if (req.method === "GET") {
+    const { gameId } = req.query;
+    if (typeof gameId !== "string" || !gameId) {
+      res.status(400).json({ message: "Which game? Pass ?gameId=" });
+      return;
+    }
+
+    res.setHeader("Cache-Control", "no-store");
+    res.status(200).json(getScoreboard(gameId, client));
+    return;
+  }
+
+  res.setHeader("Allow", "GET, POST");
+  res.status(405).json({ message: "Method not allowed" });
+}
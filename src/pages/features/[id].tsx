@@ -0,0 +1,100 @@
+import { useEffect } from "react";
+import type { GetServerSideProps } from "next";
+import { useRouter } from "next/router";
+import styled, { keyframes } from "styled-components";
+import { FeatureView } from "../../components/NewFeatureComponent";
+import { resolveFeature } from "../../config/featureComponents";
+import useConeSession from "../../hooks/useConeSession";
+import type { FeatureManifestEntry } from "../../types/featureTypes";
+import { getConeSession } from "../../utils/coneCode";
+import { getFeatureEntry } from "../../utils/featureRegistry";
+
+/* 💅 Animations */
+const fadeInUp = keyframes`
+  0% {
+    opacity: 0;
+    transform: translateY(30px);
+  }
+  100% {
+    opacity: 1;
+    transform: translateY(0);
+  }
+`;
+
+/* 🧱 Styled Components */
+const Page = styled.main`
+  min-height: 100svh;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  padding: 3rem 1rem;
+  background: #101114;
+  color: #fff;
+`;
+
+const FeatureContainer = styled.div`
+  width: 100%;
+  max-width: 1400px;
+  animation: ${fadeInUp} 0.6s ease-out;
+`;
+
+/* 🔗 Deep links go through the cone like everything else */
+interface FeaturePageProps {
+  entry: FeatureManifestEntry;
+  sessionExpiresAt: number;
+}
+
+export const getServerSideProps: GetServerSideProps<FeaturePageProps> = async ({
+  req,
+  params,
+}) => {
+  const id = String(params?.id ?? "");
+  const session = getConeSession(req.cookies);
+
+  if (!session) {
+    return {
+      redirect: {
+        destination: `/?next=${encodeURIComponent(`/features/${id}`)}`,
+        permanent: false,
+      },
+    };
+  }
+
+  const entry = getFeatureEntry(id);
+  if (!entry) return { notFound: true };
+
+  return { props: { entry, sessionExpiresAt: session.expiresAt } };
+};
+
+/* 🚀 A single feature on its own URL */
+export default function FeaturePage({
+  entry,
+  sessionExpiresAt,
+}: FeaturePageProps) {
+  const router = useRouter();
+  const { expired, revoke } = useConeSession(sessionExpiresAt);
+  const feature = resolveFeature(entry);
+
+  // Hard hat expired mid-visit: back to the cone with an explanation
+  useEffect(() => {
+    if (expired) router.replace("/?expired=1");
+  }, [expired, router]);
+
+  const handleBackToConstruction = async () => {
+    await revoke();
+    router.push("/");
+  };
+
+  return (
+    <Page>
+      <FeatureContainer>
+        <FeatureView
+          key={feature.id}
+          feature={feature}
+          onBackToDashboard={() => router.push("/")}
+          onBack={handleBackToConstruction}
+        />
+      </FeatureContainer>
+    </Page>
+  );
+}
@@ -1,21 +1,48 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
+import type { GetServerSideProps } from "next";
+import { useRouter } from "next/router";
 import styled, { keyframes, css } from "styled-components";
 import Image from "next/image";
 import { NewFeatureComponent } from "../components/NewFeatureComponent";
+import useConeSession from "../hooks/useConeSession";
+import useCountdown, { formatCountdown } from "../hooks/useCountdown";
+import {
+  getConeSession,
+  getRotationInfo,
+  type RotationInfo,
+} from "../utils/coneCode";
+import {
+  getAttemptBlock,
+  getClientKey,
+  type AttemptBlock,
+} from "../utils/coneRateLimit";
 
-/* 🧠 Utility: Generate Today’s Cone Code */
-function getCode() {
-  const today = new Date().toISOString().slice(0, 10).replace(/-/g, "");
-  const full = `undercone-${today}`;
-  let hash = 0;
-  for (let i = 0; i < full.length; i++) {
-    hash = (hash << 5) - hash + full.charCodeAt(i);
-    hash |= 0;
+/* 🧠 Utility: Ask the server whether the cone approves */
+interface VerifyResult {
+  expiresAt: number | null;
+  block: AttemptBlock | null;
+}
+
+async function verifyCode(code: string): Promise<VerifyResult> {
+  try {
+    const res = await fetch("/api/cone-code/verify", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ code }),
+    });
+    const data = (await res.json()) as {
+      granted?: boolean;
+      expiresAt?: number;
+      block?: AttemptBlock;
+    };
+    return {
+      expiresAt:
+        res.ok && data.granted && data.expiresAt ? data.expiresAt : null,
+      block: data.block ?? null,
+    };
+  } catch {
+    return { expiresAt: null, block: null };
   }
-  return `CONE-${today}-${Math.abs(hash)
-    .toString(36)
-    .slice(0, 6)
-    .toUpperCase()}`;
 }
 
 /* 💥 Sassy Cone Wisdom */
@@ -30,6 +57,19 @@ const wisdom = [
   "Honk once for emotional clarity. Twice for retry.",
 ];
 
+/* 🚧 Wisdom for the locked out */
+const lockoutWisdom = [
+  "The cone has stopped listening. Go hydrate.",
+  "Too many wrong codes. The site is closed for a safety briefing.",
+  "You've been coned. Sit with that for a while.",
+  "Hard hats off. The cone needs a moment alone.",
+  "This zone is taped off until further notice.",
+];
+
+function pick(lines: string[]) {
+  return lines[Math.floor(Math.random() * lines.length)];
+}
+
 /* 🎶 Play SFX (must be in /public/sounds) */
 function playSound(path: string) {
   if (typeof window !== "undefined") {
@@ -139,6 +179,11 @@ const Button = styled.button`
   &:active {
     transform: translateY(1px);
   }
+
+  &:disabled {
+    opacity: 0.6;
+    cursor: wait;
+  }
 `;
 
 const Cone = styled.div`
@@ -170,34 +215,131 @@ const Hint = styled.div`
   }
 `;
 
+const Countdown = styled.div`
+  margin-top: 0.75rem;
+  font-size: 0.85rem;
+  color: #ff8e2b;
+  opacity: 0.8;
+
+  strong {
+    font-family: monospace;
+    font-size: 0.95rem;
+  }
+`;
+
+const LockoutTimer = styled.div<{ $lockout: boolean }>`
+  margin-top: 1rem;
+  padding: 0.75rem 1rem;
+  border-radius: 8px;
+  border: 1px dashed ${({ $lockout }) => ($lockout ? "#ff4d4d" : "#ff7a18")};
+  background: ${({ $lockout }) =>
+    $lockout ? "rgba(255, 77, 77, 0.1)" : "rgba(255, 122, 24, 0.08)"};
+  color: ${({ $lockout }) => ($lockout ? "#ff8080" : "#ffb070")};
+  font-size: 0.9rem;
+
+  strong {
+    font-family: monospace;
+    font-size: 1.1rem;
+  }
+`;
+
 const DashboardContainer = styled.div`
   width: 100%;
   max-width: 1400px;
   animation: ${fadeInUp} 0.6s ease-out;
 `;
 
+/* 🍪 Returning visitors with a valid session skip the cone */
+interface HomeProps {
+  sessionExpiresAt: number | null;
+  rotation: RotationInfo;
+  attemptBlock: AttemptBlock | null;
+}
+
+export const getServerSideProps: GetServerSideProps<HomeProps> = async ({
+  req,
+}) => {
+  const session = getConeSession(req.cookies);
+  return {
+    props: {
+      sessionExpiresAt: session?.expiresAt ?? null,
+      rotation: getRotationInfo(),
+      attemptBlock: getAttemptBlock(getClientKey(req)),
+    },
+  };
+};
+
 /* 🚧 THE MAIN PAGE */
-export default function Home() {
+export default function Home({
+  sessionExpiresAt,
+  rotation: initialRotation,
+  attemptBlock,
+}: HomeProps) {
+  const router = useRouter();
   const [code, setCode] = useState("");
   const [message, setMessage] = useState("");
   const [shake, setShake] = useState(false);
   const [slap, setSlap] = useState(false);
-  const [accessGranted, setAccessGranted] = useState(false);
+  const [checking, setChecking] = useState(false);
+  const { accessGranted, expired, grant, revoke } =
+    useConeSession(sessionExpiresAt);
+  const [rotation, setRotation] = useState(initialRotation);
+  const untilRotation = useCountdown(rotation.nextRotationAt);
+  const [block, setBlock] = useState(attemptBlock);
+  const untilRetry = useCountdown(block?.retryAt ?? null);
   const inputRef = useRef<HTMLInputElement | null>(null);
-  const correctCode = getCode();
 
-  const handleSubmit = (e: React.FormEvent) => {
+  // Fetch the next rotation time once the countdown runs out
+  useEffect(() => {
+    if (untilRotation !== 0) return;
+    fetch("/api/cone-code/session")
+      .then((res) => res.json())
+      .then((data: { rotation?: RotationInfo }) => {
+        if (data.rotation) setRotation(data.rotation);
+      })
+      .catch(() => {});
+  }, [untilRotation]);
+
+  // Cooldown or lockout is over
+  useEffect(() => {
+    if (untilRetry !== 0) return;
+    setBlock(null);
+    setMessage("🦺 The cone has calmed down. You may try again.");
+  }, [untilRetry]);
+
+  // The daily code rotated while the dashboard (or a feature page) was open
+  const expiredOnFeaturePage = router.query.expired === "1";
+  useEffect(() => {
+    if (!expired && !expiredOnFeaturePage) return;
+    if (expiredOnFeaturePage) router.replace("/", undefined, { shallow: true });
+    setCode("");
+    setMessage(
+      "⏰ Your hard hat expired: the daily code rotated or your guest code ran out. Enter a fresh code to get back in."
+    );
+  }, [expired, expiredOnFeaturePage, router]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (checking || block) return;
+
+    setChecking(true);
+    const { expiresAt, block: newBlock } = await verifyCode(code);
+    setChecking(false);
+    setBlock(newBlock);
 
-    if (code.trim() === correctCode) {
+    if (expiresAt) {
       setMessage("✅ Access granted. Loading feature dashboard...");
-      // Transition to the dashboard after a short delay
+      // Transition to the dashboard (or the deep link that sent us here) after a short delay
+      const next = router.query.next;
       setTimeout(() => {
-        setAccessGranted(true);
+        if (typeof next === "string" && next.startsWith("/features/")) {
+          router.push(next);
+        } else {
+          grant(expiresAt);
+        }
       }, 1500);
     } else {
-      const sass = wisdom[Math.floor(Math.random() * wisdom.length)];
-      setMessage(sass);
+      setMessage(pick(newBlock?.reason === "lockout" ? lockoutWisdom : wisdom));
       setShake(true);
       setSlap(true);
       playSound("/sounds/cone-thunk.mp3");
@@ -210,7 +352,7 @@ export default function Home() {
 
   const handleBackToConstruction = () => {
     // Reset all state with flair
-    setAccessGranted(false);
+    revoke();
     setCode("");
     setMessage("🔄 Returning to construction zone...");
     setShake(false);
@@ -242,17 +384,40 @@ export default function Home() {
               value={code}
               onChange={(e) => setCode(e.target.value)}
               placeholder="CONE-YYYYMMDD-ABC123"
+              disabled={!!block}
               $shake={shake}
             />
-            <Button type="submit">Submit</Button>
+            <Button type="submit" disabled={checking || !!block}>
+              {checking ? "Checking..." : "Submit"}
+            </Button>
           </StyledForm>
 
           <Message>{message}</Message>
 
+          {block && untilRetry !== null && untilRetry > 0 && (
+            <LockoutTimer $lockout={block.reason === "lockout"}>
+              {block.reason === "lockout"
+                ? "🚧 Locked out for too many wrong codes. Try again in "
+                : "⏳ Cooling down. Next guess allowed in "}
+              <strong>{formatCountdown(untilRetry)}</strong>
+            </LockoutTimer>
+          )}
+
           <Hint>
-            For demo/testing: todayz code is <code>{correctCode}</code>
+            Codes look like <code>CONE-YYYYMMDD-ABC123</code>. Ask your site
+            foreman for today&apos;s.
           </Hint>
 
+          {untilRotation !== null && (
+            <Countdown>
+              🕛 Next code rotation in{" "}
+              <strong>{formatCountdown(untilRotation)}</strong>
+              {` (${rotation.timeZone})`}
+              {rotation.graceMinutes > 0 &&
+                ` • yesterday's code works for ${rotation.graceMinutes} min after`}
+            </Countdown>
+          )}
+
           {slap && (
             <Cone>
               <Image
@@ -0,0 +1,23 @@
+// Shared feature registry types
+
+export type FeatureStatus =
+  | "active"
+  | "development"
+  | "concept"
+  | "implemented";
+
+// One entry in src/config/features.json
+export interface FeatureManifestEntry {
+  id: string;
+  title: string;
+  description: string;
+  branch: string;
+  icon: string;
+  status: FeatureStatus;
+  component?: string; // Key into featureComponents, omitted until the feature ships
+  retired?: boolean; // Retired features stay in the manifest but leave the dashboard
+}
+
+export interface Feature extends Omit<FeatureManifestEntry, "component"> {
+  component?: React.ComponentType<Record<string, unknown>>; // Components can accept any props including onBack
+}
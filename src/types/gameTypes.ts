@@ -8,7 +8,10 @@ export interface ControlState {
   keyboard: { [key: string]: boolean };
   mouse: { x: number; y: number; buttons: boolean[] };
   touch: TouchPoint[];
-  gamepad: GamepadState | null;
+  gamepad: GamepadState | null; // First connected pad
+  gamepads: GamepadState[]; // Every connected pad
+  actions: ActionState; // Keys and pad buttons mapped through the player's bindings
+  players: [ActionState, ActionState]; // Split for local versus: player two gets their own keys and the second pad
 }
 
 export interface TouchPoint {
@@ -19,21 +22,232 @@ export interface TouchPoint {
 }
 
 export interface GamepadState {
+  index: number;
+  id: string;
   buttons: boolean[];
   axes: number[];
   connected: boolean;
 }
 
-export interface GameEvent {
-  type:
-    | "start"
-    | "pause"
-    | "resume"
-    | "end"
-    | "score"
-    | "achievement"
-    | "LASER_SHOOT";
-  data?: Record<string, unknown>;
+/* 🎮 Input mapping (src/components/games/inputBindings.ts) */
+export const GAME_ACTIONS = [
+  "up",
+  "down",
+  "left",
+  "right",
+  "fire",
+  "pause",
+  "drop",
+  "hold",
+] as const;
+
+export type GameAction = (typeof GAME_ACTIONS)[number];
+
+export type ActionState = Record<GameAction, boolean>;
+
+export type GamepadInput =
+  | { type: "button"; index: number }
+  | { type: "axis"; index: number; direction: -1 | 1 };
+
+export interface InputBindings {
+  keyboard: Record<GameAction, string[]>; // KeyboardEvent.key values
+  gamepad: Record<GameAction, GamepadInput[]>; // Standard-mapping buttons and stick directions, any pad
+  player2: Record<GameAction, string[]>; // Keys that switch to player two in local versus games
+}
+
+// Game area every game draws into, centered on the workshop's full-screen canvas
+export const GAME_WIDTH = 800;
+export const GAME_HEIGHT = 600;
+
+export type GameWinner = "player" | "ai" | "tie" | "none";
+
+// A labelled line on the shared results screen, e.g. { label: "Best Rally", value: "12 hits" }
+export interface GameStat {
+  label: string;
+  value: string | number;
+}
+
+// What every game reports when a run ends
+export interface GameResult {
+  winner: GameWinner; // "none" when the player quit mid-game
+  score?: number; // The player's score, for games without an opponent score
+  finalScore?: [number, number]; // [player, opponent]
+  sides?: [string, string]; // Who "player" and "ai" were, when not you vs the AI
+  stats?: GameStat[]; // Game-specific rows for the results screen
+  maxRally?: number;
+  length?: number; // Snake length at the end
+}
+
+/* 📣 Game → host events */
+export type GameEvent =
+  | { type: "start"; data: { mode: string } }
+  | { type: "pause" }
+  | { type: "resume" }
+  | { type: "end"; data: GameResult }
+  | {
+      type: "score";
+      data: { score: number; scorer?: "player" | "ai"; points?: number };
+    }
+  | { type: "achievement"; data: { type: string; description: string } }
+  | { type: "brain"; data: SerializedNetwork }; // The AI's network after it learned something
+
+/* 🎛️ Host → game commands */
+export type GameCommand =
+  | { type: "LASER_SHOOT"; data: { targetX: number; targetY: number } } // Game-area coordinates
+  | { type: "PAUSE" }
+  | { type: "RESUME" }
+  | { type: "TOGGLE_PAUSE" }
+  | { type: "RESTART" }
+  | { type: "LOAD_BRAIN"; data: SerializedNetwork; loss?: number } // New AI weights, e.g. from a background trainer
+  | { type: "LOAD_AI_GENERATION"; data: AIGeneration }; // An evolved rule-based AI to play the run with
+
+// What a game sees of the command bus: it can listen but not send
+export interface GameCommandChannel {
+  subscribe: (handler: (command: GameCommand) => void) => () => void;
+}
+
+export interface GameCommandBus extends GameCommandChannel {
+  send: (command: GameCommand) => void;
+}
+
+/* 🏆 Scoreboard (src/utils/gameScores.ts, /api/scores) */
+export interface GameRun {
+  gameId: string;
+  score: number;
+  maxRally?: number;
+  length?: number;
+  durationMs: number; // Simulated play time, pauses excluded
+  difficulty: number;
+  winner: GameWinner;
+  playedAt: number;
+}
+
+export interface GameScoreboard {
+  leaderboard: GameRun[]; // Best runs of everyone on this server
+  history: GameRun[]; // Your latest runs, newest first
+  personalBest: GameRun | null;
+}
+
+export interface RecordedGameRun {
+  run: GameRun;
+  isPersonalBest: boolean;
+  previousBest: number | null;
+}
+
+/* 🧠 Trainable AI networks (src/components/games/networkBrains.ts) */
+
+// A network's weights and biases, as saved in the browser or a JSON file
+export interface SerializedNetwork {
+  version: 1;
+  learningRate: number; // Where the learning-rate schedule starts
+  updates?: number; // Mini-batch updates so far, which set how far it has decayed
+  layers: { weights: number[][]; biases: number[] }[]; // Input side first, weights[from][to]
+}
+
+// A trained opponent kept under a name, to start later runs from
+export interface SavedBrain {
+  name: string;
+  gameId: string;
+  savedAt: number;
+  network: SerializedNetwork;
+}
+
+/* 🧬 Evolving rule-based AIs (src/components/games/snakeAI.ts) */
+
+// Tuning knobs, each 0-1
+export interface AITraits {
+  aggression: number; // Contest food and cut off the player instead of playing safe
+  prediction: number; // How far ahead the player's path is projected
+  adaptation: number; // How far each generation moves toward what it learned
+}
+
+// The AI after some rounds of learning from the player
+export interface AIGeneration {
+  generation: number; // 1 is the untouched starting AI
+  traits: AITraits;
+}
+
+// How an AI snake picks its targets in a battle royale
+export type AIPersonality = "hunter" | "coward" | "hoarder" | "blocker";
+
+// One AI snake's profile: its personality, and the traits it plays with
+// (its generation's, shifted by the personality)
+export interface AIBehavior {
+  personality: AIPersonality;
+  traits: AITraits;
+}
+
+/* 🗺️ Snake arenas (src/components/games/snakeLevels.ts) */
+
+export interface GridCell {
+  x: number;
+  y: number;
+}
+
+export type SnakeFoodType = "normal" | "special" | "bonus";
+
+// One wall cell, or a block of them with (x, y) as its top-left cell
+export interface WallBlock extends GridCell {
+  width?: number;
+  height?: number;
+}
+
+// A board layout, built in or loaded from a JSON file
+export interface SnakeLevel {
+  version: 1;
+  name: string;
+  cols: number; // Board size in cells; cell size follows from the canvas
+  rows: number;
+  wrap?: boolean; // Edges lead round to the other side instead of killing
+  walls?: WallBlock[];
+  portals?: [GridCell, GridCell][]; // Moving into either end comes out of the other
+  food?: {
+    count: number; // Items on the board at once
+    types?: SnakeFoodType[]; // Kinds to spawn from; repeat one to make it likelier
+  };
+  playerStart?: GridCell; // Head cells; the player heads right, the AI left
+  aiStart?: GridCell;
+}
+
+/* 🎲 Determinism: seeded randomness, game time and replays (src/components/games/gameSession.ts) */
+export interface GameRandom {
+  next: () => number; // Drop-in for Math.random(): [0, 1)
+}
+
+export interface GameClock {
+  now: () => number; // Drop-in for Date.now(): ms of simulated time since the run began
+}
+
+// Everything a single simulation step gets to react to
+export interface TickInput {
+  controls: ControlState;
+  commands: GameCommand[]; // Game-specific commands (e.g. LASER_SHOOT) queued since the last step
+}
+
+export interface GameReplay {
+  version: 1;
+  gameId: string;
+  seed: number;
+  difficulty?: string; // Missing means "normal"
+  mode?: string; // Missing means "solo"
+  brain?: SerializedNetwork; // Starting network, when the run didn't start from a fresh one
+  level?: SnakeLevel; // Arena, when the run wasn't on the game's default
+  stepMs: number;
+  ticks: number;
+  // Only the ticks where something changed: new controls and/or commands
+  inputs: { tick: number; controls?: ControlState; commands?: GameCommand[] }[];
+}
+
+export interface GameSession {
+  random: GameRandom;
+  clock: GameClock;
+  // Starts a run: fresh seed (or the replay's), clock back to zero, empty tape
+  begin: () => void;
+  // Moves one tick forward, recording the live input or swapping in the replay's
+  advance: (live: TickInput, stepMs: number) => TickInput;
+  isReplaying: () => boolean;
+  isReplayFinished: () => boolean;
+  toReplay: () => GameReplay;
 }
 
 export interface GameEngineProps {
@@ -42,6 +256,31 @@ export interface GameEngineProps {
   setGameState: (state: GameState | ((prev: GameState) => GameState)) => void;
   controls: ControlState;
   onGameEvent: (event: GameEvent) => void;
+  commands: GameCommandChannel;
+  session: GameSession;
+  difficulty: string; // Id from GameConfig.difficulties; "normal" for games without any
+  mode: string; // Id from GameConfig.modes; "solo" for games without any
+  brain: SerializedNetwork | null; // Starting network for games with `brains`; null means a fresh one
+  level: SnakeLevel | null; // Arena for games with `levels`; null means the game's first
+}
+
+// Everything about a run that's picked before it starts
+export interface GameSettings {
+  difficulty: string;
+  mode: string;
+  brain?: SerializedNetwork | null;
+  level?: SnakeLevel | null;
+}
+
+export interface GameMode {
+  id: string;
+  label: string;
+}
+
+export interface GameDifficulty {
+  id: string;
+  label: string;
+  rating: number; // 1-10, saved with scores
 }
 
 export interface GameConfig {
@@ -52,5 +291,46 @@ export interface GameConfig {
   difficulty: number; // 1-10
   controls: ("keyboard" | "mouse" | "touch" | "gamepad")[];
   category: "arcade" | "puzzle" | "action" | "strategy" | "experimental";
-  component: React.FC<GameEngineProps>;
+  cursor?: string; // CSS cursor over the canvas, e.g. "crosshair" for games that shoot
+  replayable?: boolean; // Game draws all randomness and time from its GameSession
+  difficulties?: GameDifficulty[]; // Runs start on "normal"
+  modes?: GameMode[]; // Runs start in "solo"
+  brains?: boolean; // Its AI's network can be saved, exported and picked as a starting brain
+  levels?: SnakeLevel[]; // Arena presets to pick from; runs start on the first
+  component: React.ComponentType<GameEngineProps>;
+}
+
+/* ⏱️ Shared game runtime (src/components/games/gameRuntime.ts) */
+
+// Fixed simulation rate shared by every game unless it asks for another
+export const DEFAULT_STEP_MS = 1000 / 60;
+
+export interface RenderFrame<P = unknown> {
+  alpha: number; // 0-1, how far the clock is into the next step
+  previous: P | null; // What capture() grabbed before the latest step
+  paused: boolean;
+}
+
+export interface GameRuntimeOptions<S, P = unknown> {
+  stepMs?: number;
+  initialState: S;
+  // Advances the simulation by exactly one fixed step
+  step: (state: S, stepMs: number) => S;
+  // Draws the latest state every animation frame
+  render: (state: S, frame: RenderFrame<P>) => void;
+  // Grabs whatever render needs to interpolate from, taken before every step
+  capture?: (state: S) => P;
+  // Called after any frame that ran at least one step
+  onStep?: (state: S) => void;
+}
+
+export interface GameRuntime<S> {
+  start: () => void;
+  stop: () => void;
+  pause: () => void;
+  resume: () => void;
+  isPaused: () => boolean;
+  getState: () => S;
+  setState: (state: S) => void;
+  update: (updater: (state: S) => S) => void;
 }
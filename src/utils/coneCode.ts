@@ -0,0 +1,290 @@
+import crypto from "crypto";
+import type { IncomingMessage } from "http";
+import { generateHashForDate } from "./codeUtils";
+import { isIssuedCodeRevoked } from "./issuedCodes";
+
+/* 🔐 Server-only helpers for the daily cone gate. Never import from the client! */
+
+export const CONE_SESSION_COOKIE = "cone_session";
+
+// Long-lived random id that ties scoreboard runs to one browser across rotations
+export const CONE_PLAYER_COOKIE = "cone_player";
+const PLAYER_COOKIE_MAX_AGE = 365 * 24 * 60 * 60; // seconds
+
+// Sessions from issued codes carry "issued-<id>" as their grant instead of a date key
+export const ISSUED_GRANT_PREFIX = "issued-";
+
+export interface ConeSession {
+  grant: string;
+  expiresAt: number;
+}
+
+// The HMAC salt lives in the environment so the code can't be derived in the browser
+export function getConeSecret(): string | null {
+  return process.env.CONE_CODE_SECRET || null;
+}
+
+// Admin console requests carry "Authorization: Bearer <CONE_ADMIN_TOKEN>"
+export function isAdminRequest(req: IncomingMessage): boolean {
+  const adminToken = process.env.CONE_ADMIN_TOKEN;
+  const header = req.headers.authorization ?? "";
+  if (!adminToken || !header.startsWith("Bearer ")) return false;
+  return safeEqual(header.slice("Bearer ".length), adminToken);
+}
+
+/* 🌎 Rotation schedule: the code flips at local midnight in CONE_CODE_TIMEZONE */
+export function getRotationTimeZone(): string {
+  const timeZone = process.env.CONE_CODE_TIMEZONE || "UTC";
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return timeZone;
+  } catch {
+    console.warn(`Unknown CONE_CODE_TIMEZONE "${timeZone}", using UTC`);
+    return "UTC";
+  }
+}
+
+// How long yesterday's code keeps working after the rollover
+export function getGraceMs(): number {
+  const minutes = Number(process.env.CONE_CODE_GRACE_MINUTES ?? 15);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes * 60 * 1000 : 0;
+}
+
+function getZonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+}
+
+// Milliseconds the zone's wall clock is ahead of UTC at the given instant
+function getZoneOffset(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const wallClock = Date.UTC(
+    p.year,
+    p.month - 1,
+    p.day,
+    p.hour,
+    p.minute,
+    p.second
+  );
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// Local midnight in the zone as a real instant (second pass settles DST shifts)
+function getZonedMidnight(
+  year: number,
+  month: number,
+  day: number,
+  timeZone: string
+): Date {
+  const wallClock = Date.UTC(year, month - 1, day);
+  const guess = wallClock - getZoneOffset(new Date(wallClock), timeZone);
+  return new Date(wallClock - getZoneOffset(new Date(guess), timeZone));
+}
+
+// Date key used in the code itself, e.g. "20250806"
+export function getDateKey(
+  date: Date = new Date(),
+  timeZone: string = getRotationTimeZone()
+): string {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}${String(month).padStart(2, "0")}${String(day).padStart(
+    2,
+    "0"
+  )}`;
+}
+
+// The moment today's code took over
+export function getCurrentRollover(
+  date: Date = new Date(),
+  timeZone: string = getRotationTimeZone()
+): Date {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return getZonedMidnight(year, month, day, timeZone);
+}
+
+// The next moment the daily code rotates
+export function getNextRollover(
+  date: Date = new Date(),
+  timeZone: string = getRotationTimeZone()
+): Date {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return getZonedMidnight(year, month, day + 1, timeZone);
+}
+
+export interface RotationInfo {
+  timeZone: string;
+  graceMinutes: number;
+  nextRotationAt: number;
+}
+
+export function getRotationInfo(now: Date = new Date()): RotationInfo {
+  const timeZone = getRotationTimeZone();
+  return {
+    timeZone,
+    graceMinutes: Math.round(getGraceMs() / 60000),
+    nextRotationAt: getNextRollover(now, timeZone).getTime(),
+  };
+}
+
+export function getConeCode(dateKey: string, secret: string): string {
+  return `CONE-${dateKey}-${generateHashForDate(
+    `undercone-${dateKey}`,
+    secret
+  )}`;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  if (bufA.length !== bufB.length) return false;
+  return crypto.timingSafeEqual(bufA, bufB);
+}
+
+// Accepts today's code, or yesterday's while the grace window is open.
+// Returns the code's date key as the grant and when access earned with it should end.
+export function matchConeCode(
+  input: string,
+  secret: string,
+  now: Date = new Date()
+): ConeSession | null {
+  const timeZone = getRotationTimeZone();
+  const submitted = input.trim().toUpperCase();
+
+  const todayKey = getDateKey(now, timeZone);
+  if (safeEqual(submitted, getConeCode(todayKey, secret))) {
+    return {
+      grant: todayKey,
+      expiresAt: getNextRollover(now, timeZone).getTime(),
+    };
+  }
+
+  const rollover = getCurrentRollover(now, timeZone).getTime();
+  const graceEndsAt = rollover + getGraceMs();
+  if (now.getTime() < graceEndsAt) {
+    const yesterdayKey = getDateKey(new Date(rollover - 1), timeZone);
+    if (safeEqual(submitted, getConeCode(yesterdayKey, secret))) {
+      return { grant: yesterdayKey, expiresAt: graceEndsAt };
+    }
+  }
+
+  return null;
+}
+
+/* 🍪 Signed session cookie: "<grant>.<expiresAt>.<signature>" */
+function sign(payload: string, secret: string): string {
+  return crypto
+    .createHmac("sha256", `${secret}:session`)
+    .update(payload)
+    .digest("base64url");
+}
+
+export function createSessionToken(
+  grant: string,
+  expiresAt: number,
+  secret: string
+): string {
+  const payload = `${grant}.${expiresAt}`;
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+export function readSessionToken(
+  token: string | undefined,
+  secret: string,
+  now: Date = new Date()
+): ConeSession | null {
+  if (!token) return null;
+
+  const [grant, expiresAtRaw, signature] = token.split(".");
+  if (!grant || !expiresAtRaw || !signature) return null;
+  if (!safeEqual(signature, sign(`${grant}.${expiresAtRaw}`, secret))) {
+    return null;
+  }
+
+  const expiresAt = Number(expiresAtRaw);
+  if (!Number.isFinite(expiresAt) || expiresAt <= now.getTime()) return null;
+
+  return { grant, expiresAt };
+}
+
+// Reads the session cookie from a request; the signed expiry ends it at rollover
+export function getConeSession(
+  cookies: Partial<Record<string, string>>,
+  now: Date = new Date()
+): ConeSession | null {
+  const secret = getConeSecret();
+  if (!secret) return null;
+
+  const session = readSessionToken(cookies[CONE_SESSION_COOKIE], secret, now);
+  if (
+    session?.grant.startsWith(ISSUED_GRANT_PREFIX) &&
+    isIssuedCodeRevoked(session.grant.slice(ISSUED_GRANT_PREFIX.length))
+  ) {
+    return null;
+  }
+
+  return session;
+}
+
+export function serializeSessionCookie(
+  token: string,
+  expiresAt: number,
+  now: Date = new Date()
+): string {
+  const maxAge = Math.max(0, Math.floor((expiresAt - now.getTime()) / 1000));
+  const parts = [
+    `${CONE_SESSION_COOKIE}=${token}`,
+    "Path=/",
+    `Max-Age=${maxAge}`,
+    "HttpOnly",
+    "SameSite=Lax",
+  ];
+  if (process.env.NODE_ENV === "production") parts.push("Secure");
+  return parts.join("; ");
+}
+
+export function serializeClearedSessionCookie(): string {
+  return `${CONE_SESSION_COOKIE}=; Path=/; Max-Age=0; HttpOnly; SameSite=Lax`;
+}
+
+/* 🎮 Player id cookie: 128 random bits, so nobody can guess another's */
+export function getPlayerId(
+  cookies: Partial<Record<string, string>>
+): string | null {
+  const id = cookies[CONE_PLAYER_COOKIE];
+  return id && /^[A-Za-z0-9_-]{22}$/.test(id) ? id : null;
+}
+
+export function createPlayerId(): string {
+  return crypto.randomBytes(16).toString("base64url");
+}
+
+export function serializePlayerCookie(id: string): string {
+  const parts = [
+    `${CONE_PLAYER_COOKIE}=${id}`,
+    "Path=/",
+    `Max-Age=${PLAYER_COOKIE_MAX_AGE}`,
+    "HttpOnly",
+    "SameSite=Lax",
+  ];
+  if (process.env.NODE_ENV === "production") parts.push("Secure");
+  return parts.join("; ");
+}
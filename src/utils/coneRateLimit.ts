@@ -0,0 +1,172 @@
+import type { IncomingMessage } from "http";
+
+/* 🚦 Server-only limiters for the cone gate and the APIs behind it (in-memory, per server process) */
+
+const FREE_ATTEMPTS = 3; // Wrong guesses before cooldowns kick in
+const BASE_COOLDOWN_MS = 5 * 1000; // Doubles with every further miss
+const LOCKOUT_AFTER = 10; // Wrong guesses before a full lockout
+const LOCKOUT_MS = 15 * 60 * 1000;
+const FAILURE_MEMORY_MS = 60 * 60 * 1000; // Quiet hour wipes the slate
+const PRUNE_EVERY_MS = 60 * 1000; // How often a new miss sweeps out stale records
+
+export type AttemptBlockReason = "cooldown" | "lockout";
+
+export interface AttemptBlock {
+  reason: AttemptBlockReason;
+  retryAt: number;
+}
+
+interface AttemptRecord {
+  failures: number;
+  lastFailureAt: number;
+  blockedUntil: number;
+  reason: AttemptBlockReason | null;
+}
+
+// Kept on globalThis so dev hot reloads don't hand out free guesses
+const globalStore = globalThis as unknown as {
+  __coneAttempts?: Map<string, AttemptRecord>;
+  __coneAttemptsPrunedAt?: number;
+  __coneRequestWindows?: Map<string, RequestWindow>;
+  __coneRequestWindowsPrunedAt?: number;
+};
+const attempts = (globalStore.__coneAttempts ??= new Map());
+
+// Proxy addresses allowed to speak for the client via X-Forwarded-For
+function getTrustedProxies(): string[] {
+  return (process.env.CONE_TRUSTED_PROXIES ?? "")
+    .split(",")
+    .map((address) => address.trim())
+    .filter(Boolean);
+}
+
+// The socket address, unless it's a trusted proxy: then the right-most
+// forwarded hop that isn't one. Anything left of that is client-supplied.
+export function getClientKey(req: IncomingMessage): string {
+  const remote = req.socket.remoteAddress || "unknown";
+  const trusted = getTrustedProxies();
+  if (!trusted.includes(remote)) return remote;
+
+  const forwarded = req.headers["x-forwarded-for"];
+  const hops = (
+    Array.isArray(forwarded) ? forwarded.join(",") : forwarded ?? ""
+  )
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+
+  for (let i = hops.length - 1; i >= 0; i--) {
+    if (!trusted.includes(hops[i])) return hops[i];
+  }
+  return hops[0] ?? remote;
+}
+
+const isStale = (record: AttemptRecord, now: number) =>
+  record.blockedUntil <= now && now - record.lastFailureAt > FAILURE_MEMORY_MS;
+
+// Drops every record that has served its time, so one-off clients don't pile up
+function pruneAttempts(now: number): void {
+  if (now - (globalStore.__coneAttemptsPrunedAt ?? 0) < PRUNE_EVERY_MS) return;
+  globalStore.__coneAttemptsPrunedAt = now;
+
+  attempts.forEach((record, key) => {
+    if (isStale(record, now)) attempts.delete(key);
+  });
+}
+
+function getRecord(key: string, now: number): AttemptRecord | null {
+  const record = attempts.get(key);
+  if (!record) return null;
+
+  if (isStale(record, now)) {
+    attempts.delete(key);
+    return null;
+  }
+
+  return record;
+}
+
+// Returns the active block for this client, if any
+export function getAttemptBlock(
+  key: string,
+  now: number = Date.now()
+): AttemptBlock | null {
+  const record = getRecord(key, now);
+  if (!record || !record.reason || record.blockedUntil <= now) return null;
+  return { reason: record.reason, retryAt: record.blockedUntil };
+}
+
+// Counts a wrong guess and returns the block it earned, if any
+export function recordFailedAttempt(
+  key: string,
+  now: number = Date.now()
+): AttemptBlock | null {
+  const record = getRecord(key, now) ?? {
+    failures: 0,
+    lastFailureAt: now,
+    blockedUntil: 0,
+    reason: null,
+  };
+
+  record.failures += 1;
+  record.lastFailureAt = now;
+
+  if (record.failures >= LOCKOUT_AFTER) {
+    record.reason = "lockout";
+    record.blockedUntil = now + LOCKOUT_MS;
+  } else if (record.failures > FREE_ATTEMPTS) {
+    record.reason = "cooldown";
+    record.blockedUntil =
+      now + BASE_COOLDOWN_MS * 2 ** (record.failures - FREE_ATTEMPTS - 1);
+  }
+
+  pruneAttempts(now);
+  attempts.set(key, record);
+  return getAttemptBlock(key, now);
+}
+
+export function clearAttempts(key: string): void {
+  attempts.delete(key);
+}
+
+/* ⏱️ Fixed-window request budgets, e.g. crash reports per client per minute */
+
+interface RequestWindow {
+  startedAt: number;
+  count: number;
+  windowMs: number;
+}
+
+const requestWindows = (globalStore.__coneRequestWindows ??= new Map());
+
+function pruneRequestWindows(now: number): void {
+  if (now - (globalStore.__coneRequestWindowsPrunedAt ?? 0) < PRUNE_EVERY_MS) {
+    return;
+  }
+  globalStore.__coneRequestWindowsPrunedAt = now;
+
+  requestWindows.forEach((budget, key) => {
+    if (now - budget.startedAt >= budget.windowMs) requestWindows.delete(key);
+  });
+}
+
+// Counts a request against the client's budget for `bucket`; false once it's spent
+export function takeRequestSlot(
+  bucket: string,
+  key: string,
+  limit: number,
+  windowMs: number,
+  now: number = Date.now()
+): boolean {
+  pruneRequestWindows(now);
+
+  const id = `${bucket}:${key}`;
+  let budget = requestWindows.get(id);
+  if (!budget || now - budget.startedAt >= windowMs) {
+    budget = { startedAt: now, count: 0, windowMs };
+    requestWindows.set(id, budget);
+  }
+
+  budget.count += 1;
+  return budget.count <= limit;
+}
@@ -0,0 +1,57 @@
+import { readJson, writeJson } from "./jsonStore";
+
+/* 💥 Server-only log of crashes caught by the feature error boundaries */
+
+const STORE_FILE = "error-reports.json";
+const MAX_REPORTS = 200;
+const MAX_FIELD_LENGTH = 8000; // Stacks get long; the disk shouldn't
+
+export interface ErrorReport {
+  at: number;
+  client: string;
+  zone: string; // Feature, experiment or game that crashed
+  name: string;
+  message: string;
+  stack?: string;
+  componentStack?: string;
+  url?: string;
+}
+
+function clip(value: unknown): string | undefined {
+  return typeof value === "string"
+    ? value.slice(0, MAX_FIELD_LENGTH)
+    : undefined;
+}
+
+// Turns an untrusted request body into a report, or null if it isn't one
+export function parseErrorReport(
+  body: unknown,
+  client: string,
+  now: number = Date.now()
+): ErrorReport | null {
+  if (!body || typeof body !== "object") return null;
+  const { zone, name, message, stack, componentStack, url } = body as Record<
+    string,
+    unknown
+  >;
+  if (typeof zone !== "string" || typeof message !== "string") return null;
+
+  return {
+    at: now,
+    client,
+    zone: zone.slice(0, 200),
+    name: clip(name)?.slice(0, 200) || "Error",
+    message: message.slice(0, MAX_FIELD_LENGTH),
+    stack: clip(stack),
+    componentStack: clip(componentStack),
+    url: clip(url),
+  };
+}
+
+export function listErrorReports(): ErrorReport[] {
+  return readJson<ErrorReport[]>(STORE_FILE, []);
+}
+
+export function recordErrorReport(report: ErrorReport): void {
+  writeJson(STORE_FILE, [report, ...listErrorReports()].slice(0, MAX_REPORTS));
+}
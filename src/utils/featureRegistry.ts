@@ -0,0 +1,14 @@
+import manifest from "../config/features.json";
+import type { FeatureManifestEntry } from "../types/featureTypes";
+
+/* 🗂️ Feature registry backed by src/config/features.json */
+
+export function getFeatureManifest(): FeatureManifestEntry[] {
+  return (manifest.features as FeatureManifestEntry[]).filter(
+    (feature) => !feature.retired
+  );
+}
+
+export function getFeatureEntry(id: string): FeatureManifestEntry | undefined {
+  return getFeatureManifest().find((feature) => feature.id === id);
+}
@@ -0,0 +1,139 @@
+import type {
+  GameRun,
+  GameScoreboard,
+  GameWinner,
+  RecordedGameRun,
+} from "../types/gameTypes";
+import { readJson, writeJson } from "./jsonStore";
+
+/* 🏆 Server-only high scores and run history for the AI Game Workshop */
+
+const STORE_FILE = "game-runs.json";
+const MAX_RUNS_PER_GAME = 500; // Recent window; records outlive it (see trimRuns)
+const LEADERBOARD_SIZE = 10;
+const HISTORY_SIZE = 10;
+const WINNERS: GameWinner[] = ["player", "ai", "tie", "none"];
+
+// Runs are kept per GameConfig.id, tagged with who played them
+interface StoredGameRun extends GameRun {
+  client: string;
+}
+
+type RunStore = Record<string, StoredGameRun[]>;
+
+function isCount(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+// Turns an untrusted request body into a run, or null if it isn't one
+export function parseGameRun(
+  body: unknown,
+  now: number = Date.now()
+): GameRun | null {
+  if (!body || typeof body !== "object") return null;
+  const { gameId, score, maxRally, length, durationMs, difficulty, winner } =
+    body as Record<string, unknown>;
+  if (
+    typeof gameId !== "string" ||
+    !/^[a-z0-9-]{1,64}$/.test(gameId) ||
+    !isCount(score) ||
+    !isCount(durationMs) ||
+    !isCount(difficulty) ||
+    !WINNERS.includes(winner as GameWinner)
+  ) {
+    return null;
+  }
+
+  return {
+    gameId,
+    score: Math.floor(score),
+    maxRally: isCount(maxRally) ? Math.floor(maxRally) : undefined,
+    length: isCount(length) ? Math.floor(length) : undefined,
+    durationMs: Math.round(durationMs),
+    difficulty,
+    winner: winner as GameWinner,
+    playedAt: now,
+  };
+}
+
+// Higher score wins; the earlier run keeps a tied spot
+function byScore(a: GameRun, b: GameRun) {
+  return b.score - a.score || a.playedAt - b.playedAt;
+}
+
+// Strips who played it before a run leaves the server
+function toPublicRun(stored: StoredGameRun): GameRun {
+  const run: GameRun & { client?: string } = { ...stored };
+  delete run.client;
+  return run;
+}
+
+/*
+ * Drops old runs once a game has more than MAX_RUNS_PER_GAME, but never one
+ * the scoreboard still shows: the all-time top runs, and each player's best
+ * and latest runs. `runs` is newest first, and so is the result.
+ */
+function trimRuns(runs: StoredGameRun[]): StoredGameRun[] {
+  if (runs.length <= MAX_RUNS_PER_GAME) return runs;
+
+  const keep = new Set(runs.slice(0, MAX_RUNS_PER_GAME));
+  [...runs]
+    .sort(byScore)
+    .slice(0, LEADERBOARD_SIZE)
+    .forEach((run) => keep.add(run));
+
+  const byClient = new Map<string, StoredGameRun[]>();
+  runs.forEach((run) => {
+    const mine = byClient.get(run.client);
+    if (mine) mine.push(run);
+    else byClient.set(run.client, [run]);
+  });
+  byClient.forEach((mine) => {
+    mine.slice(0, HISTORY_SIZE).forEach((run) => keep.add(run));
+    keep.add([...mine].sort(byScore)[0]);
+  });
+
+  return runs.filter((run) => keep.has(run));
+}
+
+function readRuns(gameId: string): StoredGameRun[] {
+  return readJson<RunStore>(STORE_FILE, {})[gameId] ?? [];
+}
+
+export function getScoreboard(gameId: string, client: string): GameScoreboard {
+  const runs = readRuns(gameId);
+  const mine = runs.filter((run) => run.client === client);
+  const best = [...mine].sort(byScore)[0];
+
+  return {
+    leaderboard: [...runs]
+      .sort(byScore)
+      .slice(0, LEADERBOARD_SIZE)
+      .map(toPublicRun),
+    history: mine.slice(0, HISTORY_SIZE).map(toPublicRun),
+    personalBest: best ? toPublicRun(best) : null,
+  };
+}
+
+export function recordGameRun(run: GameRun, client: string): RecordedGameRun {
+  const store = readJson<RunStore>(STORE_FILE, {});
+  const runs = store[run.gameId] ?? [];
+  const previousBest = runs
+    .filter((stored) => stored.client === client)
+    .reduce<number | null>(
+      (best, stored) =>
+        best === null ? stored.score : Math.max(best, stored.score),
+      null
+    );
+
+  store[run.gameId] = trimRuns([{ ...run, client }, ...runs]);
+  writeJson(STORE_FILE, store);
+
+  return {
+    run,
+    // The first run that scores anything counts as a record too
+    isPersonalBest:
+      previousBest === null ? run.score > 0 : run.score > previousBest,
+    previousBest,
+  };
+}
@@ -0,0 +1,148 @@
+import crypto from "crypto";
+import { generateHashForDate } from "./codeUtils";
+import { readJson, writeJson } from "./jsonStore";
+
+/* 🎟️ Server-only registry of per-person cone codes minted from the admin console */
+
+const STORE_FILE = "cone-codes.json";
+const MAX_ACCESS_LOG = 200;
+const ONE_TIME_TTL_MS = 7 * 24 * 60 * 60 * 1000; // Unused one-time codes go stale
+
+export type IssuedCodeKind = "one-time" | "time-boxed";
+export type IssuedCodeStatus = "active" | "used" | "expired" | "revoked";
+
+export interface IssuedCode {
+  id: string;
+  name: string; // Who the code was minted for
+  code: string;
+  kind: IssuedCodeKind;
+  createdAt: number;
+  expiresAt: number;
+  revokedAt: number | null;
+  uses: { at: number; client: string }[];
+}
+
+export interface AccessLogEntry {
+  at: number;
+  client: string;
+  via: "daily" | "issued";
+  codeId?: string;
+  name?: string;
+}
+
+interface IssuedCodeStore {
+  codes: IssuedCode[];
+  accessLog: AccessLogEntry[];
+}
+
+function loadStore(): IssuedCodeStore {
+  return readJson<IssuedCodeStore>(STORE_FILE, { codes: [], accessLog: [] });
+}
+
+function saveStore(store: IssuedCodeStore): void {
+  writeJson(STORE_FILE, store);
+}
+
+export function getIssuedCodeStatus(
+  code: IssuedCode,
+  now: number = Date.now()
+): IssuedCodeStatus {
+  if (code.revokedAt) return "revoked";
+  if (code.kind === "one-time" && code.uses.length > 0) return "used";
+  if (code.expiresAt <= now) return "expired";
+  return "active";
+}
+
+export function listIssuedCodes(): IssuedCode[] {
+  return loadStore().codes.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export function getAccessLog(): AccessLogEntry[] {
+  return loadStore().accessLog;
+}
+
+// Same salt mechanism as the daily code, but with a per-code nonce
+export function mintIssuedCode(
+  options: { name: string; kind: IssuedCodeKind; expiresAt?: number },
+  secret: string,
+  now: number = Date.now()
+): IssuedCode {
+  const store = loadStore();
+  const id = crypto.randomBytes(4).toString("hex");
+  const label =
+    options.name
+      .toUpperCase()
+      .replace(/[^A-Z0-9]/g, "")
+      .slice(0, 8) || "GUEST";
+
+  let code = "";
+  do {
+    const nonce = crypto.randomBytes(8).toString("hex");
+    code = `CONE-${label}-${generateHashForDate(
+      `issued-${id}`,
+      `${secret}:${nonce}`
+    )}`;
+  } while (store.codes.some((existing) => existing.code === code));
+
+  const issued: IssuedCode = {
+    id,
+    name: options.name.trim(),
+    code,
+    kind: options.kind,
+    createdAt: now,
+    expiresAt:
+      options.kind === "time-boxed" && options.expiresAt
+        ? options.expiresAt
+        : now + ONE_TIME_TTL_MS,
+    revokedAt: null,
+    uses: [],
+  };
+
+  store.codes.push(issued);
+  saveStore(store);
+  return issued;
+}
+
+export function revokeIssuedCode(
+  id: string,
+  now: number = Date.now()
+): IssuedCode | null {
+  const store = loadStore();
+  const issued = store.codes.find((code) => code.id === id);
+  if (!issued) return null;
+
+  issued.revokedAt = issued.revokedAt ?? now;
+  saveStore(store);
+  return issued;
+}
+
+// Marks a matching active code as used; returns it so the caller can grant access
+export function redeemIssuedCode(
+  input: string,
+  client: string,
+  now: number = Date.now()
+): IssuedCode | null {
+  const submitted = input.trim().toUpperCase();
+  const store = loadStore();
+  const issued = store.codes.find(
+    (code) =>
+      code.code === submitted && getIssuedCodeStatus(code, now) === "active"
+  );
+  if (!issued) return null;
+
+  issued.uses.push({ at: now, client });
+  saveStore(store);
+  return issued;
+}
+
+// Sessions minted from an issued code end the moment it is revoked
+export function isIssuedCodeRevoked(id: string): boolean {
+  const issued = loadStore().codes.find((code) => code.id === id);
+  return !issued || issued.revokedAt !== null;
+}
+
+export function recordAccess(entry: AccessLogEntry): void {
+  const store = loadStore();
+  store.accessLog = [entry, ...store.accessLog].slice(0, MAX_ACCESS_LOG);
+  saveStore(store);
+}
@@ -0,0 +1,24 @@
+import fs from "fs";
+import path from "path";
+
+/* 🗄️ Server-only JSON files for small bits of state (set CONE_DATA_DIR to move them) */
+
+const DATA_DIR = process.env.CONE_DATA_DIR || path.join(process.cwd(), ".data");
+
+export function readJson<T>(fileName: string, fallback: T): T {
+  try {
+    const raw = fs.readFileSync(path.join(DATA_DIR, fileName), "utf8");
+    return JSON.parse(raw) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+// Write to a temp file first so a crash never leaves half a JSON file behind
+export function writeJson<T>(fileName: string, data: T): void {
+  fs.mkdirSync(DATA_DIR, { recursive: true });
+  const target = path.join(DATA_DIR, fileName);
+  const temp = `${target}.${process.pid}.tmp`;
+  fs.writeFileSync(temp, JSON.stringify(data, null, 2));
+  fs.renameSync(temp, target);
+}